@@ -4,6 +4,7 @@ import { Settings } from './components/Settings';
 import { InterviewConsole } from './components/InterviewConsole';
 import { SummaryScreen } from './components/SummaryScreen';
 import { PasscodeScreen } from './components/PasscodeScreen';
+import { resetReplay } from './services/providers';
 
 const App: React.FC = () => {
   const { settings, updateSettings, hasStarted, isFinished } = useInterview();
@@ -22,10 +23,20 @@ const App: React.FC = () => {
     updateSettings({ isAuthenticated: true });
   };
 
+  const handleDemoMode = () => {
+    resetReplay();
+    updateSettings({
+      provider: 'replay',
+      modelName: 'replay',
+      transcriptionProvider: undefined,
+      isAuthenticated: true,
+    });
+  };
+
   if (isFinished) return <SummaryScreen />;
   if (hasStarted) return <InterviewConsole />;
   if (!settings.isAuthenticated) {
-    return <PasscodeScreen onAuthenticated={handleAuthenticated} onManualMode={handleManualMode} />;
+    return <PasscodeScreen onAuthenticated={handleAuthenticated} onManualMode={handleManualMode} onDemoMode={handleDemoMode} />;
   }
 
   return <Settings />;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Quote, AlertTriangle } from 'lucide-react';
+import { EvidenceCitation, STARResult } from '../types';
+import { citationKey } from '../utils/citations';
+
+interface CitationListProps {
+  rubricItemId: string;
+  field: keyof STARResult;
+  citations?: EvidenceCitation[];
+  unsupported: boolean; // The field states something no verified quote backs up
+  activeKey?: string | null;
+  onSelect: (key: string, citation: EvidenceCitation) => void;
+  sourceLabel?: (rubricItemId: string) => string; // Names the parameter a cross-referenced quote came from
+}
+
+/**
+ * Quotes backing one STAR field. Verified quotes jump to their passage in the
+ * transcript; quotes that could not be found are shown struck through.
+ */
+export const CitationList: React.FC<CitationListProps> = ({ rubricItemId, field, citations, unsupported, activeKey, onSelect, sourceLabel }) => {
+  if (!citations?.length && !unsupported) return null;
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {unsupported && (
+        <div className="flex items-center gap-1 w-fit text-[10px] font-black uppercase bg-tertiary border-2 border-black px-2 py-0.5" title="No quote in the transcript supports this field">
+          <AlertTriangle className="w-3 h-3" /> Unsupported claim
+        </div>
+      )}
+      {citations?.map((citation, index) => {
+        const key = citationKey(rubricItemId, field, index);
+        if (!citation.verified) {
+          return (
+            <p key={key} className="text-[11px] font-bold text-black opacity-50 line-through" title="Not found in the transcript">
+              "{citation.quote}"
+            </p>
+          );
+        }
+        return (
+          <button
+            key={key}
+            onClick={() => onSelect(key, citation)}
+            title={citation.similarity < 1 ? `Close match (${Math.round(citation.similarity * 100)}%)` : 'Exact match'}
+            className={`flex items-start gap-1.5 w-full text-left text-[11px] font-bold text-black italic border-2 border-black px-2 py-1 transition-colors ${activeKey === key ? 'bg-quat' : 'bg-secondary hover:bg-quat'}`}
+          >
+            <Quote className="w-3 h-3 shrink-0 mt-0.5" />
+            <span className="line-clamp-2">
+              {citation.quote}
+              {citation.rubricItemId && sourceLabel && (
+                <span className="not-italic font-black uppercase text-[9px] ml-1 opacity-60">({sourceLabel(citation.rubricItemId)})</span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { CitationHighlight } from '../utils/citations';
+
+interface CitedTranscriptProps {
+  transcript: string;
+  highlights: CitationHighlight[];
+  activeKey?: string | null; // Highlight to emphasize and scroll into view
+  onSelect?: (key: string) => void;
+  onSeek?: (offset: number) => void; // Click on a sentence or passage plays the audio from there
+}
+
+// Start of every sentence after the first: after sentence punctuation or a paragraph break
+const SENTENCE_START = /(?<=[.!?]["'”’)]*\s+|\n\n)(?=\S)/g;
+
+/**
+ * Renders a transcript with cited passages marked. Overlapping citations are
+ * split into plain segments so each character is rendered once. With onSeek,
+ * plain text is also split at sentences so each can be clicked.
+ */
+export const CitedTranscript: React.FC<CitedTranscriptProps> = ({ transcript, highlights, activeKey, onSelect, onSeek }) => {
+  const activeRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (activeKey) activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeKey]);
+
+  const valid = highlights.filter(h => h.start >= 0 && h.end > h.start && h.end <= transcript.length);
+  const sentenceStarts = onSeek ? [...transcript.matchAll(SENTENCE_START)].map(m => m.index!) : [];
+  const boundaries = Array.from(new Set([0, transcript.length, ...sentenceStarts, ...valid.flatMap(h => [h.start, h.end])])).sort((a, b) => a - b);
+
+  const segments = boundaries.slice(0, -1).map((start, i) => {
+    const end = boundaries[i + 1];
+    return { start, end, covering: valid.filter(h => h.start <= start && h.end >= end) };
+  });
+  // Scroll target is the first segment of the active passage
+  const activeIndex = activeKey ? segments.findIndex(s => s.covering.some(h => h.key === activeKey)) : -1;
+
+  return (
+    <>
+      {segments.map(({ start, end, covering }, i) => {
+        const text = transcript.slice(start, end);
+        if (!covering.length) {
+          if (!onSeek) return <React.Fragment key={start}>{text}</React.Fragment>;
+          return (
+            <span key={start} onClick={() => onSeek(start)} className="cursor-pointer hover:bg-slate-200 transition-colors">
+              {text}
+            </span>
+          );
+        }
+
+        const isActive = covering.some(h => h.key === activeKey);
+        return (
+          <mark
+            key={start}
+            ref={i === activeIndex ? activeRef : undefined}
+            onClick={() => { onSelect?.(covering[0].key); onSeek?.(start); }}
+            className={`text-black cursor-pointer transition-colors ${isActive ? 'bg-quat outline outline-2 outline-black' : 'bg-secondary hover:bg-quat'}`}
+          >
+            {text}
+          </mark>
+        );
+      })}
+    </>
+  );
+};
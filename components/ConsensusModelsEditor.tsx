@@ -0,0 +1,83 @@
+import React from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useInterview } from '../context/InterviewContext';
+import { Button } from './Button';
+import { ConsensusModel } from '../types';
+import { listProviders, findProvider } from '../services/providers';
+import { consensusModelSettings } from '../services/consensusService';
+
+/**
+ * Edits the provider/model pairs compared by the consensus rating.
+ * Each model uses the credentials already configured for its provider.
+ */
+export const ConsensusModelsEditor: React.FC = () => {
+  const { settings, updateSettings } = useInterview();
+  const models = settings.consensusModels || [];
+  const analysisProviders = listProviders().filter(p => p.capabilities.textAnalysis);
+
+  const setModels = (next: ConsensusModel[]) => updateSettings({ consensusModels: next });
+
+  const updateModel = (index: number, changes: Partial<ConsensusModel>) => {
+    setModels(models.map((model, i) => i === index ? { ...model, ...changes } : model));
+  };
+
+  const handleAdd = () => {
+    // Start from the current analysis model, the most likely first entry
+    const isListed = models.some(m => m.provider === settings.provider && m.modelName === settings.modelName);
+    setModels([...models, isListed
+      ? { provider: settings.provider, modelName: '' }
+      : { provider: settings.provider, modelName: settings.modelName }
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {models.length === 0 && (
+        <p className="text-xs text-black font-bold opacity-60">No models yet. Add at least two to compare ratings.</p>
+      )}
+      {models.map((model, index) => {
+        const adapter = findProvider(model.provider);
+        const missingCredentials = !!adapter && !!model.modelName && !adapter.hasCredentials(consensusModelSettings(settings, model));
+        return (
+          <div key={index} className="space-y-1">
+            <div className="grid grid-cols-[10rem_1fr_auto] gap-2 items-center">
+              <select
+                value={model.provider}
+                onChange={(e) => updateModel(index, { provider: e.target.value, modelName: findProvider(e.target.value)?.defaultModel || '' })}
+                className="neo-brutalism-input text-xs h-9 px-2"
+              >
+                {analysisProviders.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={model.modelName}
+                onChange={(e) => updateModel(index, { modelName: e.target.value })}
+                placeholder={adapter?.defaultModel || 'model name'}
+                className="neo-brutalism-input text-xs h-9 px-2"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setModels(models.filter((_, i) => i !== index))}
+                className="bg-white h-9 px-2"
+                title="Remove model"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+            {missingCredentials && (
+              <p className="text-[10px] font-black uppercase text-black flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" /> {adapter!.label} credentials are not set
+              </p>
+            )}
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={handleAdd} className="bg-white h-8 px-2 text-[10px]">
+        <Plus className="w-3.5 h-3.5 mr-1" /> Add Model
+      </Button>
+    </div>
+  );
+};
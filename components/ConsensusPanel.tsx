@@ -0,0 +1,89 @@
+import React from 'react';
+import { AlertTriangle, Check, Scale } from 'lucide-react';
+import { Button } from './Button';
+import { ConsensusResult, STARResult } from '../types';
+import { describeConsensusModel } from '../services/consensusService';
+
+interface ConsensusPanelProps {
+  consensus: ConsensusResult;
+  currentRating: number;
+  onApply: (rating: number) => void;
+}
+
+const STAR_LABELS: { key: keyof STARResult; letter: string }[] = [
+  { key: 'situation', letter: 'S' },
+  { key: 'task', letter: 'T' },
+  { key: 'action', letter: 'A' },
+  { key: 'result', letter: 'R' },
+];
+
+/**
+ * One parameter's consensus run: the suggested (median) rating, how far the
+ * models disagree, and each model's rating and STAR excerpt side by side.
+ * A median between two levels offers both.
+ */
+export const ConsensusPanel: React.FC<ConsensusPanelProps> = ({ consensus, currentRating, onApply }) => {
+  const options = Number.isInteger(consensus.median)
+    ? [consensus.suggestedRating]
+    : [Math.floor(consensus.median), Math.ceil(consensus.median)];
+
+  return (
+    <div className={`px-10 py-6 border-b-[4px] border-black space-y-4 ${consensus.needsReview ? 'bg-white' : 'bg-secondary'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <Scale className="w-5 h-5 text-black" />
+        <span className="text-xs font-black text-black uppercase tracking-widest">Consensus</span>
+        <span className="text-xs font-black text-black bg-white border-2 border-black px-2 py-0.5 tabular-nums">
+          {options.length > 1 ? `Split ${options.join(' / ')}` : `Suggested ${consensus.suggestedRating}`}
+          {consensus.median !== consensus.suggestedRating && <span className="opacity-60"> (median {consensus.median})</span>}
+        </span>
+        <span className="text-[10px] font-black text-black uppercase tracking-wider opacity-70 tabular-nums">
+          Spread {consensus.spread} • {Math.round(consensus.agreement * 100)}% agree
+        </span>
+        {consensus.needsReview && (
+          <span className="flex items-center gap-1 text-[10px] font-black uppercase bg-tertiary border-2 border-black px-2 py-0.5">
+            <AlertTriangle className="w-3 h-3" /> Needs review
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          {options.map(rating => (
+            <Button
+              key={rating}
+              variant="outline"
+              size="sm"
+              onClick={() => onApply(rating)}
+              disabled={currentRating === rating}
+              className="bg-white h-8 px-2 text-[10px]"
+            >
+              {currentRating === rating ? <><Check className="w-3.5 h-3.5 mr-1" /> Applied {rating}</> : `Use ${rating}`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(consensus.votes.length, 4)}, minmax(0, 1fr))` }}>
+        {consensus.votes.map((vote, index) => (
+          <div key={index} className="bg-white border-[3px] border-black p-3 space-y-2 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+              <span className="text-[10px] font-black text-black uppercase tracking-wider break-all">{describeConsensusModel(vote)}</span>
+              <span className={`w-8 h-8 shrink-0 border-2 border-black flex items-center justify-center text-sm font-black ${vote.rating === undefined ? 'bg-slate-100 text-black' : vote.rating !== undefined && options.includes(vote.rating) ? 'bg-main text-white' : 'bg-white text-black'}`}>
+                {vote.rating ?? '–'}
+              </span>
+            </div>
+            {vote.starEvidence ? (
+              <div className="space-y-1">
+                {STAR_LABELS.map(({ key, letter }) => (
+                  <p key={key} className="text-[11px] font-bold text-black leading-snug line-clamp-2" title={vote.starEvidence![key]}>
+                    <span className="font-black mr-1">{letter}:</span>
+                    {vote.starEvidence![key] || <span className="opacity-40 italic">missing</span>}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[11px] font-bold text-black opacity-60 italic">{vote.error}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { INPUT_ALARM_MESSAGES, InputLevel } from '../utils/audioInput';
+
+interface InputLevelMeterProps {
+  level: InputLevel | null;
+}
+
+const FLOOR_DB = -60; // Empty meter
+
+/**
+ * VU meter for the microphone, with the silence or clipping warning below it.
+ */
+export const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ level }) => {
+  const fill = level ? Math.min(1, Math.max(0, (level.db - FLOOR_DB) / -FLOOR_DB)) : 0;
+  const clipped = !!level && level.peak >= 0.99;
+
+  return (
+    <div className="space-y-2">
+      <div className="h-3 bg-white border-2 border-black overflow-hidden" title={level ? `${Math.round(level.db)} dBFS` : 'No input'}>
+        <div
+          className={`h-full transition-[width] duration-100 ${clipped ? 'bg-tertiary' : 'bg-main'}`}
+          style={{ width: `${fill * 100}%` }}
+        />
+      </div>
+      {level?.alarm && (
+        <div className="flex items-start gap-2 px-3 py-2 bg-tertiary border-2 border-black text-black">
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="text-[10px] font-black uppercase tracking-wider">{INPUT_ALARM_MESSAGES[level.alarm]}</span>
+        </div>
+      )}
+    </div>
+  );
+};
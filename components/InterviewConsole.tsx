@@ -1,15 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useInterview } from '../context/InterviewContext';
-import { transcribeAudio, analyzeTranscript, regenerateQuestionAnalysis } from '../services/geminiService';
-import { Recorder } from './Recorder';
+import { transcribeForAnalysis, translateToEnglish, analyzeTranscript, regenerateQuestionAnalysis } from '../services/geminiService';
+import { getProviderCapabilities, isAbortError, CallOptions, RetryInfo } from '../services/providers';
+import { PartialAnalysis } from '../services/responseValidation';
+import { describePromptVersion } from '../services/promptTemplates';
+import { getSessionUsage, subscribeUsage, summarizeUsage, formatCost, formatTokens } from '../services/usageLedger';
+import { getLiveTranscriptionProvider } from '../services/liveTranscriptionService';
+import { drainChunkBacklog, RecoveredChunk } from '../services/chunkBacklog';
+import { Recorder, RecordingInfo } from './Recorder';
 import { Button } from './Button';
 import { SettingsModal } from './SettingsModal';
+import { CitedTranscript } from './CitedTranscript';
+import { CitationList } from './CitationList';
+import { SpeakerTurnEditor } from './SpeakerTurnEditor';
+import { RecordingPlayer, SeekRequest } from './RecordingPlayer';
 import {
   ArrowLeft, ArrowRight, CheckCircle2,
   FileText, Sparkles, MessageSquare, Info, X, LayoutGrid, Zap, AlertCircle, RefreshCcw, Settings2, Radio,
-  Menu, PanelRightOpen, PanelRightClose
+  Menu, PanelRightOpen, PanelRightClose, Coins, Plus, Users
 } from 'lucide-react';
 import { getQuestionAudio } from '../utils/indexedDb';
+import { EvidenceCitation, InterviewResult, STARResult, TranscriptSpeaker, TranscriptTurn } from '../types';
+import { verifyQuotes, mergeCitations, findUnsupportedFields, highlightsForTranscript, relocateCitations } from '../utils/citations';
+import { languageLabel, needsTranslation } from '../utils/languages';
+import { assembleChunkTexts } from '../utils/transcriptAssembly';
+import { audioPositionAt, createTurn, formatTurns, hasOriginalText, hasTranscript, latestAnswer, placeInRecording, spokenLanguage } from '../utils/transcriptTurns';
 
 export const InterviewConsole: React.FC = () => {
   const { rubric, settings, results, updateResult, resetInterview, setIsFinished, sessionId } = useInterview();
@@ -17,7 +32,17 @@ export const InterviewConsole: React.FC = () => {
   const [showRatingGuide, setShowRatingGuide] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+  // Analysis streamed so far; shown in the analysis panel until the final result lands
+  const [streamingAnalysis, setStreamingAnalysis] = useState<PartialAnalysis | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
   const [probingQuestions, setProbingQuestions] = useState<string[]>([]);
+  const [activeCitation, setActiveCitation] = useState<string | null>(null); // Citation key highlighted in the transcript
+  const [showOriginal, setShowOriginal] = useState(false); // Transcript log in the spoken language instead of English
+  const [editSpeakers, setEditSpeakers] = useState(false); // Transcript log as editable speaker turns
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const [manualText, setManualText] = useState('');
+  const [manualSpeaker, setManualSpeaker] = useState<TranscriptSpeaker>('interviewer');
   const [transcriptionMode, setTranscriptionMode] = useState<'batch' | 'live'>(settings.transcriptionMode || 'batch');
   const [showLeftSidebar, setShowLeftSidebar] = useState(false);
   const [showRightSidebar, setShowRightSidebar] = useState(false);
@@ -33,21 +58,93 @@ export const InterviewConsole: React.FC = () => {
     localStorage.setItem('bars_currentIndex', currentIndex.toString());
   }, [currentIndex]);
 
+  // Running cost of this session, refreshed whenever a call is recorded
+  const [sessionUsage, setSessionUsage] = useState(() => getSessionUsage(sessionId));
+  useEffect(() => {
+    const refresh = () => setSessionUsage(getSessionUsage(sessionId));
+    refresh();
+    return subscribeUsage(refresh);
+  }, [sessionId]);
+  const usageTotals = summarizeUsage(sessionUsage, settings.modelPrices);
+
+  // Latest results for work that finishes after the render that started it
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+
+  // Don't keep billing for requests nobody will see
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Starts a cancellable AI request, aborting any previous one
+  const beginRequest = (): CallOptions => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setRetryInfo(null);
+    setStreamingAnalysis(null);
+    return { signal: controller.signal, onRetry: setRetryInfo };
+  };
+
+  const endRequest = (options: CallOptions) => {
+    if (requestRef.current?.signal !== options.signal) return; // Cancelled or superseded
+    requestRef.current = null;
+    setIsProcessing(false);
+    setRetryInfo(null);
+    setStreamingAnalysis(null);
+  };
+
+  const handleCancelProcessing = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsProcessing(false);
+    setRetryInfo(null);
+    setStreamingAnalysis(null);
+  };
+
+  const capabilities = getProviderCapabilities(settings.provider);
+  const canRegenerate = capabilities.multiAudioInput && capabilities.textAnalysis;
+
   const currentItem = rubric[currentIndex];
   // Ensure we have a default result object if none exists yet
-  const currentResult = results[currentItem.id] || {
-    transcript: '',
+  const currentResult: InterviewResult = results[currentItem.id] || {
+    turns: [],
     rating: 0,
     isEdited: false,
     starEvidence: { situation: '', task: '', action: '', result: '' }
   };
 
-  const isParameterComplete = !!currentResult.transcript && currentResult.starEvidence && Object.values(currentResult.starEvidence).some(v => !!v);
+  const displayedStar = streamingAnalysis
+    ? { ...currentResult.starEvidence, ...streamingAnalysis.starUpdate }
+    : currentResult.starEvidence;
+  const displayedProbes = streamingAnalysis?.probingQuestions.length ? streamingAnalysis.probingQuestions : probingQuestions;
+  const unsupportedFields = streamingAnalysis ? [] : findUnsupportedFields(currentResult.starEvidence, currentResult.citations);
+
+  // Plays the recording behind a point in a parameter's transcript, if it has one
+  const seekTranscript = (rubricItemId: string, offset: number) => {
+    const position = audioPositionAt(results[rubricItemId]?.turns || [], offset);
+    if (position) setSeekRequest({ ...position, id: Date.now() });
+  };
+
+  const handleSelectCitation = (key: string, citation: EvidenceCitation) => {
+    // Holistic citations can point into another parameter's transcript
+    if (citation.rubricItemId && citation.rubricItemId !== currentItem.id) {
+      const index = rubric.findIndex(item => item.id === citation.rubricItemId);
+      if (index !== -1) setCurrentIndex(index);
+    }
+    seekTranscript(citation.rubricItemId || currentItem.id, citation.start);
+    setActiveCitation(key);
+    setShowOriginal(false);
+    setShowRightSidebar(false);
+  };
+
+  const currentTranscript = formatTurns(currentResult.turns);
+
+  const isParameterComplete = hasTranscript(currentResult) && currentResult.starEvidence && Object.values(currentResult.starEvidence).some(v => !!v);
 
   const handleNext = () => {
     if (currentIndex < rubric.length - 1) {
       setCurrentIndex(currentIndex + 1);
       setProbingQuestions([]);
+      setActiveCitation(null);
       setError(null);
     } else {
       setIsFinished(true);
@@ -57,33 +154,59 @@ export const InterviewConsole: React.FC = () => {
   // ─── PHASE 2: STOP & TRANSCRIBE ONLY ─────────────
 
   // Batch mode: transcribe audio → update transcript log (no analysis)
-  const handleStopAndTranscribe = async (audioBase64: string, mimeType: string) => {
+  const handleStopAndTranscribe = async (audio: Blob, recording: RecordingInfo) => {
     setError(null);
+    const options = beginRequest();
     try {
-      const transcript = await transcribeAudio(settings, audioBase64, mimeType);
-      const updatedTranscript = currentResult.transcript +
-        (currentResult.transcript ? "\n\n" : "") +
-        "CANDIDATE: " + (transcript || "");
+      const { turns, language } = await transcribeForAnalysis(
+        settings, audio, currentItem.id, { ...options, language: recording.language, diarize: true }
+      );
 
-      updateResult(currentItem.id, { transcript: updatedTranscript });
+      // Every turn links to the same recording, placed within it for playback
+      const placements = placeInRecording(turns, recording.duration);
+      const newTurns = turns.map((turn, i) => createTurn({
+        speaker: turn.speaker,
+        text: turn.text,
+        originalText: turn.originalText,
+        language,
+        startedAt: recording.startedAt + (placements[i].start ?? 0) * 1000,
+        duration: placements[i].duration,
+        audioKey: recording.audioKey,
+        audioOffset: placements[i].start,
+        segments: turn.segments,
+        source: recording.imported ? 'import' : 'batch'
+      }));
+      updateResult(currentItem.id, { turns: [...currentResult.turns, ...newTurns] });
     } catch (err: any) {
-      console.error(err);
+      if (!isAbortError(err)) console.error(err);
       throw err; // Let Recorder handle the error display
+    } finally {
+      endRequest(options);
     }
   };
 
-  // Live mode: transcript already captured — just append to log (no analysis)
-  const handleLiveStopAndTranscribe = async (transcript: string, _audioBlob: Blob) => {
+  // Live mode: transcript already captured — translate if needed and append to log (no analysis)
+  const handleLiveStopAndTranscribe = async (transcript: string, _audioBlob: Blob, recording: RecordingInfo) => {
     setError(null);
-    try {
-      const updatedTranscript = currentResult.transcript +
-        (currentResult.transcript ? "\n\n" : "") +
-        "CANDIDATE: " + transcript;
+    const { language, startedAt, duration, audioKey, liveChunks } = recording;
+    const turnFields = { speaker: 'candidate' as const, language: language || undefined, startedAt, duration, audioKey, liveChunks, source: 'live' as const };
+    if (!needsTranslation(language)) {
+      updateResult(currentItem.id, { turns: [...currentResult.turns, createTurn({ ...turnFields, text: transcript })] });
+      return;
+    }
 
-      updateResult(currentItem.id, { transcript: updatedTranscript });
+    const options = beginRequest();
+    try {
+      // Nothing to translate when every chunk went to the offline backlog
+      const english = transcript ? await translateToEnglish(settings, transcript, language, currentItem.id, options) : '';
+      updateResult(currentItem.id, {
+        turns: [...currentResult.turns, createTurn({ ...turnFields, text: english, originalText: transcript })]
+      });
     } catch (err: any) {
-      console.error(err);
+      if (!isAbortError(err)) console.error(err);
       throw err;
+    } finally {
+      endRequest(options);
     }
   };
 
@@ -93,38 +216,40 @@ export const InterviewConsole: React.FC = () => {
   const handleAnalyzeProbe = async () => {
     setIsProcessing(true);
     setError(null);
+    const options = beginRequest();
     try {
-      if (!currentResult.transcript) {
+      if (!hasTranscript(currentResult)) {
         throw new Error("No transcript to analyze. Please record a response first.");
       }
 
-      // Get the latest snippet (text after last "CANDIDATE: ")
-      const parts = currentResult.transcript.split("CANDIDATE: ");
-      const latestSnippet = parts[parts.length - 1]?.trim() || currentResult.transcript;
-
-      const { starUpdate, probingQuestions: newProbes } = await analyzeTranscript(
+      const { starUpdate, probingQuestions: newProbes, quotes } = await analyzeTranscript(
         settings,
-        latestSnippet,
+        latestAnswer(currentResult.turns),
         currentItem,
-        currentResult.transcript,
+        currentTranscript,
         currentResult.starEvidence,
-        true // Generate probing questions
+        true, // Generate probing questions
+        { ...options, onPartial: setStreamingAnalysis }
       );
 
-      // Append probe to transcript
-      const updatedTranscript = currentResult.transcript +
-        "\n\nINTERVIEWER (PROBE): " + (newProbes?.[0] || "");
+      // The first probe is what the interviewer asks next
+      const turns = newProbes?.[0]
+        ? [...currentResult.turns, createTurn({ speaker: 'interviewer', text: newProbes[0], source: 'probe' })]
+        : currentResult.turns;
 
       updateResult(currentItem.id, {
-        transcript: updatedTranscript,
+        turns,
         starEvidence: starUpdate,
+        citations: mergeCitations(currentResult.citations, verifyQuotes(quotes, formatTurns(turns))),
+        promptVersion: describePromptVersion(settings, 'analyze', currentItem.id)
       });
       setProbingQuestions(newProbes || []);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err.message || "Analysis failed.");
     } finally {
-      setIsProcessing(false);
+      endRequest(options);
     }
   };
 
@@ -132,40 +257,137 @@ export const InterviewConsole: React.FC = () => {
   const handleAnalyzeFinish = async () => {
     setIsProcessing(true);
     setError(null);
+    const options = beginRequest();
     try {
-      if (!currentResult.transcript) {
+      if (!hasTranscript(currentResult)) {
         throw new Error("No transcript to analyze. Please record a response first.");
       }
 
-      const parts = currentResult.transcript.split("CANDIDATE: ");
-      const latestSnippet = parts[parts.length - 1]?.trim() || currentResult.transcript;
-
-      const { starUpdate } = await analyzeTranscript(
+      const { starUpdate, quotes } = await analyzeTranscript(
         settings,
-        latestSnippet,
+        latestAnswer(currentResult.turns),
         currentItem,
-        currentResult.transcript,
+        currentTranscript,
         currentResult.starEvidence,
-        false // No probing questions
+        false, // No probing questions
+        { ...options, onPartial: setStreamingAnalysis }
       );
 
       updateResult(currentItem.id, {
         starEvidence: starUpdate,
+        citations: mergeCitations(currentResult.citations, verifyQuotes(quotes, currentTranscript)),
+        promptVersion: describePromptVersion(settings, 'analyze', currentItem.id)
       });
       setProbingQuestions([]);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err.message || "Failed to finalize the question.");
     } finally {
-      setIsProcessing(false);
+      endRequest(options);
     }
   };
 
+  const handleAddManualTurn = () => {
+    const text = manualText.trim();
+    if (!text) return;
+    updateResult(currentItem.id, {
+      turns: [...currentResult.turns, createTurn({ speaker: manualSpeaker, text, source: 'manual' })]
+    });
+    setManualText('');
+  };
+
+  // Replaces a parameter's turns after their text changed, moving citations that quote it
+  const saveEditedTurns = (parameterId: string, turns: TranscriptTurn[]) => {
+    const transcript = formatTurns(turns);
+    const updates: Record<string, Partial<InterviewResult>> = {};
+    Object.entries(resultsRef.current).forEach(([id, result]: [string, InterviewResult]) => {
+      if (id === parameterId || !result.citations) return;
+      const relocated = relocateCitations(result.citations, id, parameterId, transcript);
+      if (JSON.stringify(relocated) !== JSON.stringify(result.citations)) updates[id] = { citations: relocated };
+    });
+    updates[parameterId] = {
+      turns,
+      citations: relocateCitations(resultsRef.current[parameterId]?.citations, parameterId, parameterId, transcript)
+    };
+    Object.entries(updates).forEach(([id, update]) => {
+      updateResult(id, update);
+      // Keep the ref in step so a second edit before the next render builds on this one
+      resultsRef.current = { ...resultsRef.current, [id]: { ...resultsRef.current[id], ...update } };
+    });
+  };
+
+  // Labels are part of the transcript text, so citations quoting it shift
+  const handleChangeSpeaker = (turnId: string, speaker: TranscriptSpeaker) => {
+    saveEditedTurns(currentItem.id, currentResult.turns.map(turn => turn.id === turnId ? { ...turn, speaker } : turn));
+  };
+
+  // ─── OFFLINE CHUNK BACKLOG ─────────────────────────
+
+  // Slots late chunk text into the live turns it was cut from, at its position in the recording.
+  // Returns the chunks left for the next drain: those of turns whose translation failed.
+  const reconcileBacklog = async (recovered: RecoveredChunk[]): Promise<RecoveredChunk[]> => {
+    const pending = new Map<string, { parameterId: string; turn: TranscriptTurn; liveChunks: (string | null)[]; chunks: RecoveredChunk[] }>();
+    recovered.forEach(chunk => {
+      const { entry, text } = chunk;
+      const turn = resultsRef.current[entry.parameterId]?.turns.find(t => t.audioKey === entry.audioKey && t.liveChunks);
+      if (!turn) return; // The turn was removed; its text has nowhere to go
+      const update = pending.get(turn.id) || { parameterId: entry.parameterId, turn, liveChunks: [...turn.liveChunks!], chunks: [] };
+      update.liveChunks[entry.seq] = text;
+      update.chunks.push(chunk);
+      pending.set(turn.id, update);
+    });
+
+    const unplaced: RecoveredChunk[] = [];
+    const results = await Promise.all([...pending.values()].map(async ({ parameterId, turn, liveChunks, chunks }) => {
+      const spoken = assembleChunkTexts(liveChunks);
+      const translated = turn.originalText !== undefined;
+      let text = spoken;
+      if (translated && spoken) {
+        try {
+          text = await translateToEnglish(settings, spoken, turn.language || '', parameterId);
+        } catch (err) {
+          // The turn keeps its English text; its chunks stay queued so the next drain translates again
+          console.error(`[Backlog] Could not translate turn ${turn.id}:`, err);
+          unplaced.push(...chunks);
+          return null;
+        }
+      }
+      return {
+        parameterId,
+        turnId: turn.id,
+        fields: { text, originalText: translated ? spoken : undefined, liveChunks: liveChunks.includes(null) ? liveChunks : undefined }
+      };
+    }));
+    const updates = results.filter((update): update is NonNullable<typeof update> => update !== null);
+
+    new Set(updates.map(u => u.parameterId)).forEach(parameterId => {
+      const turns = resultsRef.current[parameterId].turns.map(turn => {
+        const update = updates.find(u => u.turnId === turn.id);
+        return update ? { ...turn, ...update.fields } : turn;
+      });
+      saveEditedTurns(parameterId, turns);
+    });
+    return unplaced;
+  };
+
+  const handleDrainBacklog = () => {
+    drainChunkBacklog(settings, sessionId, reconcileBacklog).catch(err => console.error('[Backlog] Reconciliation failed:', err));
+  };
+
+  // Queued chunks are sent on load and whenever the connection comes back
+  useEffect(() => {
+    handleDrainBacklog();
+    window.addEventListener('online', handleDrainBacklog);
+    return () => window.removeEventListener('online', handleDrainBacklog);
+  }, [settings, sessionId]);
+
   // ─── LEGACY: REGENERATE ────────────────────────────
 
   const handleRegenerate = async () => {
     setIsProcessing(true);
     setError(null);
+    const options = beginRequest();
     try {
       if (!sessionId) throw new Error("No session ID found.");
 
@@ -176,22 +398,32 @@ export const InterviewConsole: React.FC = () => {
 
       const blobData = audioBlobs.map(b => ({ blob: b.blob, mimeType: b.mimeType }));
 
-      const { transcript, starUpdate, probingQuestions: newProbes } = await regenerateQuestionAnalysis(
+      const language = spokenLanguage(currentResult.turns);
+      const { turns: reportedTurns, starUpdate, probingQuestions: newProbes, quotes } = await regenerateQuestionAnalysis(
         settings,
         blobData,
-        currentItem
+        currentItem,
+        { ...options, language }
       );
 
+      const turns = reportedTurns.map(turn => createTurn({
+        ...turn,
+        language: turn.originalText ? language : undefined,
+        source: 'regenerate'
+      }));
       updateResult(currentItem.id, {
-        transcript: transcript,
-        starEvidence: starUpdate
+        turns,
+        starEvidence: starUpdate,
+        citations: verifyQuotes(quotes, formatTurns(turns)),
+        promptVersion: describePromptVersion(settings, 'regenerate', currentItem.id)
       });
       setProbingQuestions(newProbes || []);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err.message || "Regeneration failed.");
     } finally {
-      setIsProcessing(false);
+      endRequest(options);
     }
   };
 
@@ -232,13 +464,14 @@ export const InterviewConsole: React.FC = () => {
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
           {rubric.map((item, idx) => {
             const isActive = idx === currentIndex;
-            const isDone = !!results[item.id]?.transcript;
+            const isDone = hasTranscript(results[item.id]);
             return (
               <button
                 key={item.id}
                 onClick={() => {
                   setCurrentIndex(idx);
                   setProbingQuestions([]);
+                  setActiveCitation(null);
                   setError(null);
                 }}
                 className={`w-full text-left p-3 border-[3px] border-black transition-all flex items-center gap-3 group ${isActive ? 'bg-black text-white shadow-none translate-x-[2px] translate-y-[2px]' : 'bg-white text-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]'
@@ -300,19 +533,14 @@ export const InterviewConsole: React.FC = () => {
               </button>
               <button
                 onClick={() => {
-                  const hasGoogle = !!settings.googleApiKey;
-                  const hasSarvam = !!settings.sarvamApiKey;
+                  const { adapter, settings: engineSettings } = getLiveTranscriptionProvider(settings);
 
-                  if (settings.provider === 'google' && !hasGoogle) {
-                    setError('Live mode requires a Google API Key. Please add it in Settings.');
-                    return;
-                  }
-                  if (settings.provider === 'sarvam' && !hasSarvam) {
-                    setError('Live mode requires a Sarvam API Key. Please add it in Settings.');
+                  if (!adapter.capabilities.transcription) {
+                    setError(`${adapter.label} cannot transcribe audio. Please choose a speech-to-text provider in Settings.`);
                     return;
                   }
-                  if (settings.provider === 'openrouter' && !hasSarvam) {
-                    setError('Live mode with OpenRouter requires a Sarvam API Key for transcription. Please add it in Settings.');
+                  if (!adapter.hasCredentials(engineSettings)) {
+                    setError(`Live mode requires ${adapter.label} credentials for transcription. Please add them in Settings.`);
                     return;
                   }
 
@@ -328,6 +556,13 @@ export const InterviewConsole: React.FC = () => {
               </button>
             </div>
 
+            <div
+              className="flex items-center gap-1 px-3 py-2 border-[3px] border-black bg-white text-[10px] font-black uppercase tracking-wider tabular-nums shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]"
+              title={`${usageTotals.calls} AI calls • ${formatTokens(usageTotals.inputTokens)} in / ${formatTokens(usageTotals.outputTokens)} out tokens${usageTotals.unpricedCalls ? ` • ${usageTotals.unpricedCalls} unpriced` : ''}`}
+            >
+              <Coins className="w-3 h-3" /> {formatCost(usageTotals.cost)}
+            </div>
+
             <div className="hidden xl:block h-10 w-[3px] bg-black mx-1"></div>
             <Button variant="outline" size="sm" onClick={() => setShowSettings(true)} className="bg-white hover:bg-slate-100">
               <Settings2 className="w-4 h-4" /><span className="hidden xl:inline ml-2">Settings</span>
@@ -340,14 +575,14 @@ export const InterviewConsole: React.FC = () => {
               variant="outline"
               size="sm"
               onClick={handleRegenerate}
-              disabled={isProcessing}
+              disabled={isProcessing || !canRegenerate}
               className="bg-white border-black hover:bg-black hover:text-white"
-              title="Re-analyze all audio for this question"
+              title={canRegenerate ? "Re-analyze all audio for this question" : "The selected provider cannot re-analyze audio"}
             >
               <RefreshCcw className={`w-4 h-4 ${isProcessing ? 'animate-spin' : ''}`} />
             </Button>
             <div className="hidden xl:block h-10 w-[3px] bg-black mx-1"></div>
-            <Button onClick={() => { setCurrentIndex(Math.max(0, currentIndex - 1)); setError(null); }} disabled={currentIndex === 0} variant="outline" size="sm">
+            <Button onClick={() => { setCurrentIndex(Math.max(0, currentIndex - 1)); setActiveCitation(null); setError(null); }} disabled={currentIndex === 0} variant="outline" size="sm">
               <ArrowLeft className="w-5 h-5" />
             </Button>
             <Button onClick={handleNext} variant="primary" size="sm">
@@ -392,17 +627,18 @@ export const InterviewConsole: React.FC = () => {
               <Recorder
                 onStopAndTranscribe={handleStopAndTranscribe}
                 onLiveStopAndTranscribe={handleLiveStopAndTranscribe}
+                onRetryBacklog={handleDrainBacklog}
                 onAnalyzeProbe={handleAnalyzeProbe}
                 onAnalyzeFinish={handleAnalyzeFinish}
                 isProcessing={isProcessing}
-                onCancelProcessing={() => setIsProcessing(false)}
+                onCancelProcessing={handleCancelProcessing}
+                retryInfo={retryInfo}
                 sessionId={sessionId}
                 paramId={currentItem.id}
                 transcriptionMode={transcriptionMode}
-                googleApiKey={settings.googleApiKey}
-                sarvamApiKey={settings.sarvamApiKey}
-                provider={settings.provider}
-                hasTranscript={!!currentResult.transcript}
+                settings={settings}
+                canAnalyze={capabilities.textAnalysis}
+                hasTranscript={hasTranscript(currentResult)}
               />
             </div>
 
@@ -411,22 +647,87 @@ export const InterviewConsole: React.FC = () => {
               <div className="flex items-center gap-3 px-1">
                 <FileText className="w-5 h-5 text-black" />
                 <h3 className="text-xs font-black uppercase tracking-widest text-black">Transcript Log</h3>
-                {currentResult.transcript && (
+                {hasOriginalText(currentResult.turns) && (
+                  <div className="flex border-2 border-black">
+                    <button
+                      onClick={() => setShowOriginal(false)}
+                      className={`px-2 py-0.5 text-[10px] font-black uppercase tracking-wider ${!showOriginal ? 'bg-black text-white' : 'bg-white text-black'}`}
+                    >
+                      English
+                    </button>
+                    <button
+                      onClick={() => setShowOriginal(true)}
+                      className={`px-2 py-0.5 text-[10px] font-black uppercase tracking-wider border-l-2 border-black ${showOriginal ? 'bg-black text-white' : 'bg-white text-black'}`}
+                    >
+                      {spokenLanguage(currentResult.turns) ? languageLabel(spokenLanguage(currentResult.turns)) : 'Original'}
+                    </button>
+                  </div>
+                )}
+                {hasTranscript(currentResult) && (
+                  <button
+                    onClick={() => setEditSpeakers(!editSpeakers)}
+                    className={`flex items-center gap-1 px-2 py-0.5 border-2 border-black text-[10px] font-black uppercase tracking-wider ${editSpeakers ? 'bg-black text-white' : 'bg-white text-black'}`}
+                    title="Correct who said what before analyzing"
+                  >
+                    <Users className="w-3 h-3" /> Speakers
+                  </button>
+                )}
+                {hasTranscript(currentResult) && (
                   <div className="ml-auto text-[10px] px-3 py-1 bg-main text-white border-2 border-black font-black uppercase tracking-widest">
                     RECORDING SAVED
                   </div>
                 )}
               </div>
 
-              {currentResult.transcript ? (
+              <RecordingPlayer
+                sessionId={sessionId}
+                parameterId={currentItem.id}
+                refreshKey={currentResult.turns.length}
+                seekRequest={seekRequest}
+              />
+
+              {hasTranscript(currentResult) ? (
                 <div className="bg-white border-[3px] border-black p-8 text-sm text-black font-bold leading-relaxed font-mono whitespace-pre-wrap max-h-96 overflow-y-auto shadow-[inset_4px_4px_0px_0px_rgba(0,0,0,0.1)]">
-                  {currentResult.transcript}
+                  {/* Citations point into the English log, so the original is shown without highlights */}
+                  {editSpeakers ? (
+                    <SpeakerTurnEditor turns={currentResult.turns} onChangeSpeaker={handleChangeSpeaker} />
+                  ) : showOriginal && hasOriginalText(currentResult.turns) ? formatTurns(currentResult.turns, true) : (
+                    <CitedTranscript
+                      transcript={currentTranscript}
+                      highlights={highlightsForTranscript(results, currentItem.id)}
+                      activeKey={activeCitation}
+                      onSelect={setActiveCitation}
+                      onSeek={(offset) => seekTranscript(currentItem.id, offset)}
+                    />
+                  )}
                 </div>
               ) : (
                 <div className="h-48 border-[3px] border-dashed border-black bg-slate-50 flex flex-col items-center justify-center text-black">
                   <p className="text-xs font-black uppercase opacity-30">No responses recorded yet</p>
                 </div>
               )}
+
+              {/* Typed turns, e.g. a question asked off-script */}
+              <div className="flex gap-2">
+                <select
+                  value={manualSpeaker}
+                  onChange={(e) => setManualSpeaker(e.target.value as TranscriptSpeaker)}
+                  className="bg-white border-[3px] border-black px-2 text-[10px] font-black uppercase tracking-wider focus:outline-none"
+                >
+                  <option value="interviewer">Interviewer</option>
+                  <option value="candidate">Candidate</option>
+                </select>
+                <input
+                  value={manualText}
+                  onChange={(e) => setManualText(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddManualTurn(); }}
+                  placeholder="Type a turn to add to the transcript..."
+                  className="flex-1 min-w-0 bg-white border-[3px] border-black px-3 py-2 text-sm text-black font-bold focus:outline-none focus:ring-2 focus:ring-quat"
+                />
+                <Button variant="outline" size="sm" onClick={handleAddManualTurn} disabled={!manualText.trim()} title="Add to transcript">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
             </div>
 
             {/* Notes Section */}
@@ -452,6 +753,11 @@ export const InterviewConsole: React.FC = () => {
           <div className="flex items-center gap-2">
             <Sparkles className="w-6 h-6 text-black" />
             <h2 className="text-xl font-black text-black uppercase tracking-tight">AI Live Analysis</h2>
+            {streamingAnalysis && (
+              <span className="ml-auto text-[10px] px-2 py-1 bg-quat border-2 border-black font-black uppercase tracking-widest animate-pulse">
+                Streaming
+              </span>
+            )}
           </div>
         </div>
 
@@ -459,9 +765,9 @@ export const InterviewConsole: React.FC = () => {
           {/* Probe Suggestion */}
           <div className="space-y-3">
             <span className="text-sm font-black text-black uppercase tracking-widest opacity-60">Suggested Probes</span>
-            {probingQuestions.length > 0 ? (
+            {displayedProbes.length > 0 ? (
               <div className="space-y-3">
-                {probingQuestions.map((q, i) => (
+                {displayedProbes.map((q, i) => (
                   <div key={i} className="bg-white border-[3px] border-black p-5 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] space-y-2">
                     <p className="text-base font-bold text-black italic leading-relaxed">"{q}"</p>
                     <div className="flex items-center gap-2 text-[10px] text-black font-black bg-quat border-2 border-black w-fit px-2 py-1 uppercase scale-90 -ml-1">
@@ -488,7 +794,7 @@ export const InterviewConsole: React.FC = () => {
                 { label: 'Action', key: 'action', icon: 'A', color: 'bg-white' },
                 { label: 'Result', key: 'result', icon: 'R', color: 'bg-white' },
               ].map((field) => {
-                const val = currentResult.starEvidence?.[field.key as keyof typeof currentResult.starEvidence];
+                const val = displayedStar?.[field.key as keyof STARResult];
                 return (
                   <div key={field.key} className={`p-4 border-[3px] border-black transition-all ${val ? field.color + ' shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]' : 'bg-slate-200/50 opacity-40 grayscale'}`}>
                     <div className="flex items-center justify-between mb-2">
@@ -502,6 +808,17 @@ export const InterviewConsole: React.FC = () => {
 
                       {val || `No ${field.label.toLowerCase()} details extracted yet...`}
                     </p>
+                    {!streamingAnalysis && (
+                      <CitationList
+                        rubricItemId={currentItem.id}
+                        field={field.key as keyof STARResult}
+                        citations={currentResult.citations?.[field.key as keyof STARResult]}
+                        unsupported={unsupportedFields.includes(field.key as keyof STARResult)}
+                        activeKey={activeCitation}
+                        onSelect={handleSelectCitation}
+                        sourceLabel={(id) => rubric.find(item => item.id === id)?.parameter || id}
+                      />
+                    )}
                   </div>
                 );
               })}
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, RefreshCcw, Square } from 'lucide-react';
+import { useInterview } from '../context/InterviewContext';
+import { audioConstraints, describeMicError, InputLevel, listAudioInputs, monitorInputLevel } from '../utils/audioInput';
+import { InputLevelMeter } from './InputLevelMeter';
+
+const TEST_SECONDS = 5;
+
+/**
+ * Microphone picker with a short test recording, played back so the
+ * interviewer hears what the transcription engine will get.
+ */
+export const MicCheck: React.FC = () => {
+  const { settings, updateSettings } = useInterview();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [testing, setTesting] = useState(false);
+  const [level, setLevel] = useState<InputLevel | null>(null);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopMonitorRef = useRef<(() => void) | null>(null);
+  const timeoutRef = useRef<number | null>(null);
+
+  const refreshDevices = () => {
+    listAudioInputs().then(setDevices).catch(() => setDevices([]));
+  };
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      stopMonitorRef.current?.();
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+  }, []);
+
+  useEffect(() => () => {
+    if (playbackUrl) URL.revokeObjectURL(playbackUrl);
+  }, [playbackUrl]);
+
+  const stopTest = () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const startTest = async () => {
+    setError(null);
+    setPlaybackUrl(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings.audioInputDeviceId) });
+      // Device names are only visible once permission is granted
+      refreshDevices();
+
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        stopMonitorRef.current?.();
+        stopMonitorRef.current = null;
+        recorderRef.current = null;
+        setTesting(false);
+        if (chunks.length) setPlaybackUrl(URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' })));
+      };
+
+      recorderRef.current = recorder;
+      stopMonitorRef.current = monitorInputLevel(stream, setLevel);
+      recorder.start();
+      setTesting(true);
+      timeoutRef.current = window.setTimeout(stopTest, TEST_SECONDS * 1000);
+    } catch (err) {
+      setError(describeMicError(err));
+    }
+  };
+
+  const selected = settings.audioInputDeviceId || '';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={selected}
+          onChange={(e) => updateSettings({ audioInputDeviceId: e.target.value || undefined })}
+          disabled={testing}
+          className="neo-brutalism-input text-sm flex-1"
+        >
+          <option value="">System default</option>
+          {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+          ))}
+          {selected && !devices.some(d => d.deviceId === selected) && (
+            <option value={selected}>Not connected</option>
+          )}
+        </select>
+        <button
+          onClick={refreshDevices}
+          title="Refresh device list"
+          className="w-10 h-10 border-[3px] border-black bg-white hover:bg-secondary flex items-center justify-center text-black shrink-0"
+        >
+          <RefreshCcw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={testing ? stopTest : startTest}
+          className={`h-10 px-3 border-[3px] border-black flex items-center gap-2 text-[10px] font-black uppercase tracking-wider shrink-0 ${testing ? 'bg-black text-white' : 'bg-secondary text-black'}`}
+        >
+          {testing ? <><Square className="w-3 h-3 fill-white" /> Stop</> : <><Mic className="w-4 h-4" /> Test ({TEST_SECONDS}s)</>}
+        </button>
+      </div>
+
+      {testing && <InputLevelMeter level={level} />}
+      {playbackUrl && !testing && (
+        <div className="space-y-1">
+          <span className="text-[10px] font-black text-black uppercase tracking-wider">Playback</span>
+          <audio src={playbackUrl} controls autoPlay className="w-full" />
+        </div>
+      )}
+      {error && <p className="text-xs font-bold text-black bg-tertiary border-2 border-black px-3 py-2">{error}</p>}
+      <p className="text-[10px] text-black font-bold opacity-60">
+        Speak for a few seconds and listen back. Recordings use this microphone; a muted or overdriven input is flagged while recording.
+      </p>
+    </div>
+  );
+};
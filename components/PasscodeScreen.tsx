@@ -1,14 +1,15 @@
 import React, { useState } from 'react';
-import { Lock, Key, ArrowRight, AlertTriangle, Settings2 } from 'lucide-react';
+import { Lock, Key, ArrowRight, AlertTriangle, Settings2, PlayCircle } from 'lucide-react';
 import { Button } from './Button';
 import { validatePasscode } from '../utils/authUtils';
 
 interface PasscodeScreenProps {
     onAuthenticated: (keys: { openRouterApiKey: string; sarvamApiKey: string }) => void;
     onManualMode: () => void;
+    onDemoMode: () => void;
 }
 
-export const PasscodeScreen: React.FC<PasscodeScreenProps> = ({ onAuthenticated, onManualMode }) => {
+export const PasscodeScreen: React.FC<PasscodeScreenProps> = ({ onAuthenticated, onManualMode, onDemoMode }) => {
     const [passcode, setPasscode] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [isChecking, setIsChecking] = useState(false);
@@ -95,8 +96,8 @@ export const PasscodeScreen: React.FC<PasscodeScreenProps> = ({ onAuthenticated,
                     </div>
                 </form>
 
-                {/* Manual Mode Link */}
-                <div className="text-center">
+                {/* Manual & Demo Mode Links */}
+                <div className="flex flex-col items-center gap-3">
                     <button
                         onClick={onManualMode}
                         className="inline-flex items-center gap-2 text-xs font-bold text-black/40 hover:text-black transition-colors uppercase tracking-wider group"
@@ -104,6 +105,13 @@ export const PasscodeScreen: React.FC<PasscodeScreenProps> = ({ onAuthenticated,
                         <Settings2 className="w-3.5 h-3.5 group-hover:rotate-90 transition-transform duration-300" />
                         Advanced: Enter API keys manually
                     </button>
+                    <button
+                        onClick={onDemoMode}
+                        className="inline-flex items-center gap-2 text-xs font-bold text-black/40 hover:text-black transition-colors uppercase tracking-wider group"
+                    >
+                        <PlayCircle className="w-3.5 h-3.5 group-hover:scale-110 transition-transform" />
+                        Offline demo: No API keys, canned responses
+                    </button>
                 </div>
             </div>
         </div>
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Save, FileCode } from 'lucide-react';
+import { useInterview } from '../context/InterviewContext';
+import { Button } from './Button';
+import { CustomPromptTemplate, ItemPromptTemplateId, PromptTemplateId, RubricItem } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, ITEM_TEMPLATE_IDS, resolvePromptTemplate } from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  rubricItems: RubricItem[]; // Items that can receive per-parameter overrides
+}
+
+const GLOBAL_SCOPE = '';
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ rubricItems }) => {
+  const { settings, updateSettings } = useInterview();
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE); // '' = all parameters, otherwise a rubric item id
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('systemInstruction');
+  const [draft, setDraft] = useState('');
+
+  const isItemScope = scope !== GLOBAL_SCOPE;
+  const templateIds = (isItemScope ? ITEM_TEMPLATE_IDS : Object.keys(DEFAULT_PROMPT_TEMPLATES)) as PromptTemplateId[];
+  const definition = DEFAULT_PROMPT_TEMPLATES[templateId];
+  const resolved = resolvePromptTemplate(settings, templateId, scope || undefined);
+
+  const override: CustomPromptTemplate | undefined = isItemScope
+    ? settings.rubricPromptOverrides?.[scope]?.[templateId as ItemPromptTemplateId]
+    : settings.promptTemplates?.[templateId];
+
+  // Load the active text whenever the selection changes
+  useEffect(() => {
+    setDraft(resolved.text);
+  }, [scope, templateId, resolved.version]);
+
+  // Per-item scope only offers item-level templates
+  useEffect(() => {
+    if (!templateIds.includes(templateId)) setTemplateId(templateIds[0]);
+  }, [scope]);
+
+  const handleSave = () => {
+    const saved: CustomPromptTemplate = {
+      text: draft,
+      version: (override?.version || 0) + 1,
+      updatedAt: Date.now()
+    };
+
+    if (isItemScope) {
+      updateSettings({
+        rubricPromptOverrides: {
+          ...settings.rubricPromptOverrides,
+          [scope]: { ...settings.rubricPromptOverrides?.[scope], [templateId]: saved }
+        }
+      });
+    } else {
+      updateSettings({ promptTemplates: { ...settings.promptTemplates, [templateId]: saved } });
+    }
+  };
+
+  const handleReset = () => {
+    if (isItemScope) {
+      const { [templateId as ItemPromptTemplateId]: _removed, ...rest } = settings.rubricPromptOverrides?.[scope] || {};
+      updateSettings({ rubricPromptOverrides: { ...settings.rubricPromptOverrides, [scope]: rest } });
+    } else {
+      const { [templateId]: _removed, ...rest } = settings.promptTemplates || {};
+      updateSettings({ promptTemplates: rest });
+    }
+  };
+
+  const overrideCount = (itemId: string) => Object.keys(settings.rubricPromptOverrides?.[itemId] || {}).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1.5">
+          <label className="text-xs font-black text-black uppercase tracking-tight">Applies To</label>
+          <select value={scope} onChange={(e) => setScope(e.target.value)} className="neo-brutalism-input text-sm">
+            <option value={GLOBAL_SCOPE}>All parameters</option>
+            {rubricItems.map(item => (
+              <option key={item.id} value={item.id}>
+                {item.parameter}{overrideCount(item.id) ? ` (${overrideCount(item.id)} custom)` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-xs font-black text-black uppercase tracking-tight">Template</label>
+          <select value={templateId} onChange={(e) => setTemplateId(e.target.value as PromptTemplateId)} className="neo-brutalism-input text-sm">
+            {templateIds.map(id => (
+              <option key={id} value={id}>{DEFAULT_PROMPT_TEMPLATES[id].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[10px] text-black font-bold opacity-60">{definition.description}</p>
+        <span className="text-[10px] font-mono font-bold text-black bg-slate-50 border-2 border-black px-2 py-0.5 shrink-0 flex items-center gap-1">
+          <FileCode className="w-3 h-3" /> {resolved.version}
+        </span>
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        className="neo-brutalism-input text-xs font-mono min-h-[220px] leading-relaxed"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black text-black uppercase tracking-wider">Placeholders:</span>
+        {definition.placeholders.map(name => (
+          <code key={name} className="text-[10px] font-bold bg-quat border-2 border-black px-1.5 py-0.5">{`{{${name}}}`}</code>
+        ))}
+      </div>
+
+      {isItemScope && !override && (
+        <p className="text-[10px] text-black font-bold opacity-60">
+          This parameter uses the {settings.promptTemplates?.[templateId] ? 'custom' : 'default'} template for all parameters. Saving creates an override for this parameter only.
+        </p>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={handleReset} disabled={!override} className="bg-white h-8 px-2 text-[10px]">
+          <RotateCcw className="w-3.5 h-3.5 mr-1" /> {isItemScope ? 'Remove Override' : 'Reset To Default'}
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!draft.trim() || draft === resolved.text} className="h-8 px-3 text-[10px]">
+          <Save className="w-3.5 h-3.5 mr-1" /> Save Version {(override?.version || 0) + 1}
+        </Button>
+      </div>
+    </div>
+  );
+};
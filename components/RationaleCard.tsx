@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { InterviewResult } from '../types';
+
+interface RationaleCardProps {
+  result: InterviewResult;
+}
+
+/**
+ * Why the AI chose its rating: the anchor the evidence matched, why the
+ * neighbouring levels were rejected, and how confident it was.
+ */
+export const RationaleCard: React.FC<RationaleCardProps> = ({ result }) => {
+  const { rationale, confidence, insufficientEvidence } = result;
+  if (!rationale && confidence === undefined && !insufficientEvidence) return null;
+
+  const rows = rationale ? [
+    { label: 'Matched', text: rationale.matchedAnchor },
+    { label: 'Not lower', text: rationale.lowerRejected },
+    { label: 'Not higher', text: rationale.higherRejected },
+  ].filter(row => row.text) : [];
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-[11px] font-black text-black uppercase tracking-widest px-2 py-1 border-2 border-black bg-secondary w-fit shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">Rating Rationale</h4>
+      <div className="p-4 border-[3px] border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,0.15)] space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {confidence !== undefined && (
+            <div className="flex items-center gap-2 flex-1 min-w-[8rem]" title="AI confidence in this rating">
+              <Gauge className="w-4 h-4 text-black shrink-0" />
+              <div className="flex-1 h-2.5 border-2 border-black bg-slate-50">
+                <div
+                  className={`h-full ${confidence >= 0.7 ? 'bg-main' : confidence >= 0.4 ? 'bg-quat' : 'bg-tertiary'}`}
+                  style={{ width: `${Math.round(confidence * 100)}%` }}
+                />
+              </div>
+              <span className="text-[10px] font-black text-black tabular-nums">{Math.round(confidence * 100)}%</span>
+            </div>
+          )}
+          {insufficientEvidence && (
+            <span className="flex items-center gap-1 text-[10px] font-black uppercase bg-tertiary border-2 border-black px-2 py-0.5">
+              <AlertTriangle className="w-3 h-3" /> Insufficient evidence
+            </span>
+          )}
+        </div>
+        {rows.map(row => (
+          <p key={row.label} className="text-[11px] font-bold text-black leading-relaxed">
+            <span className="font-black uppercase tracking-wider text-[10px] mr-1">{row.label}:</span>
+            {row.text}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
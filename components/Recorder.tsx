@@ -1,50 +1,88 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Loader2, Zap, XCircle, Radio, Plus } from 'lucide-react';
+import { Mic, Square, Loader2, Zap, XCircle, Radio, Plus, Languages, RotateCcw, CloudOff, Pause, Play, Upload } from 'lucide-react';
 import { Button } from './Button';
 import { saveAudioBackup } from '../utils/indexedDb';
-import { startLiveTranscription, stopLiveTranscription, isLiveActive } from '../services/liveTranscriptionService';
-
-import { AIProvider } from '../types';
+import { startLiveTranscription, stopLiveTranscription, pauseLiveTranscription, resumeLiveTranscription, retryFailedLiveChunks, isLiveActive, getLiveTranscriptionProvider, describeLiveEngine } from '../services/liveTranscriptionService';
+import { countBacklogChunks, queueBacklogChunks, subscribeChunkBacklog } from '../services/chunkBacklog';
+import { isAbortError, RetryInfo } from '../services/providers';
+import { SPOKEN_LANGUAGES, languageLabel } from '../utils/languages';
+import { LiveChunkStatus } from '../utils/transcriptAssembly';
+import { audioConstraints, describeMicError, InputLevel, monitorInputLevel } from '../utils/audioInput';
+import { IMPORT_ACCEPT, MAX_IMPORT_BYTES, mediaDurationSeconds, withMediaType } from '../utils/audioEncoding';
+import { InputLevelMeter } from './InputLevelMeter';
+
+import { AppSettings } from '../types';
+
+// What is known about a finished recording, for the transcript turn it becomes
+export interface RecordingInfo {
+  language: string; // Spoken language ("" = auto-detect)
+  startedAt: number; // Epoch ms
+  duration: number; // Seconds
+  audioKey?: number; // Key of the IndexedDB audio backup, if it was saved
+  liveChunks?: (string | null)[]; // Live mode: chunk texts, when some wait in the offline backlog
+  imported?: boolean; // From a file recorded elsewhere rather than the microphone
+}
 
 interface RecorderProps {
   // Phase 2: Stop & Transcribe only
-  onStopAndTranscribe: (audioBase64: string, mimeType: string) => Promise<void>;
-  onLiveStopAndTranscribe?: (transcript: string, audioBlob: Blob) => Promise<void>;
+  onStopAndTranscribe: (audio: Blob, recording: RecordingInfo) => Promise<void>;
+  onLiveStopAndTranscribe?: (transcript: string, audioBlob: Blob, recording: RecordingInfo) => Promise<void>;
+  onRetryBacklog?: () => void; // Sends the offline backlog of live chunks again
   // Phase 3: Analyze actions (text-only, no audio)
   onAnalyzeProbe: () => Promise<void>;
   onAnalyzeFinish: () => Promise<void>;
   isProcessing: boolean;
   onCancelProcessing?: () => void;
+  retryInfo?: RetryInfo | null; // Set while a failed request is being retried
   sessionId: string;
   paramId: string;
   transcriptionMode: 'batch' | 'live';
-  googleApiKey?: string;
-  sarvamApiKey?: string;
-  provider?: AIProvider;
+  settings: AppSettings;
+  canAnalyze?: boolean; // False when the selected provider has no text analysis capability
   hasTranscript: boolean; // Whether there's already transcript text for this question
 }
 
-type RecorderPhase = 'idle' | 'recording' | 'transcribing' | 'ready';
+type RecorderPhase = 'idle' | 'recording' | 'paused' | 'transcribing' | 'ready';
 
 export const Recorder: React.FC<RecorderProps> = ({
-  onStopAndTranscribe, onLiveStopAndTranscribe,
+  onStopAndTranscribe, onLiveStopAndTranscribe, onRetryBacklog,
   onAnalyzeProbe, onAnalyzeFinish,
-  isProcessing, onCancelProcessing,
+  isProcessing, onCancelProcessing, retryInfo,
   sessionId, paramId,
-  transcriptionMode, googleApiKey, sarvamApiKey, provider,
+  transcriptionMode, settings,
+  canAnalyze = true,
   hasTranscript
 }) => {
   const [phase, setPhase] = useState<RecorderPhase>(hasTranscript ? 'ready' : 'idle');
   const [timer, setTimer] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [liveTranscript, setLiveTranscript] = useState<string>('');
+  const [liveChunks, setLiveChunks] = useState<LiveChunkStatus[]>([]);
   const [liveStatus, setLiveStatus] = useState<'idle' | 'connecting' | 'connected' | 'disconnected'>('idle');
+  const [backlogCount, setBacklogCount] = useState(0); // Live chunks of this parameter waiting to be transcribed
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+  // Per-recording override of the session language, e.g. for one answer in Hindi
+  const [language, setLanguage] = useState(settings.transcriptionLanguage || '');
 
   // Batch mode refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+  const pausedMsRef = useRef(0); // Time spent paused in the current recording
+  const pausedAtRef = useRef(0);
+  const streamRef = useRef<MediaStream | null>(null); // Microphone being monitored, kept to resume monitoring
+  const stopMonitorRef = useRef<(() => void) | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      countBacklogChunks(sessionId, paramId).then(setBacklogCount).catch(() => setBacklogCount(0));
+    };
+    refresh();
+    return subscribeChunkBacklog(refresh);
+  }, [sessionId, paramId]);
 
   // Update phase when hasTranscript changes (e.g., navigating between questions)
   useEffect(() => {
@@ -58,16 +96,53 @@ export const Recorder: React.FC<RecorderProps> = ({
   useEffect(() => {
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      stopMonitorRef.current?.();
     };
   }, []);
 
+  // Level meter and silence/clipping alarms for the microphone being recorded
+  const startMonitor = (stream: MediaStream) => {
+    stopMonitorRef.current?.();
+    streamRef.current = stream;
+    stopMonitorRef.current = monitorInputLevel(stream, setInputLevel);
+  };
+
+  const stopMonitor = () => {
+    stopMonitorRef.current?.();
+    stopMonitorRef.current = null;
+    setInputLevel(null);
+  };
+
+  const startTimer = () => {
+    timerRef.current = window.setInterval(() => setTimer(t => t + 1), 1000);
+  };
+
+  const beginRecording = () => {
+    startedAtRef.current = Date.now();
+    pausedMsRef.current = 0;
+    setPhase('recording');
+    setTimer(0);
+    startTimer();
+  };
+
+  // Seconds of audio captured, excluding pauses
+  const recordedSeconds = () => {
+    const pausedMs = pausedMsRef.current + (phase === 'paused' ? Date.now() - pausedAtRef.current : 0);
+    return (Date.now() - startedAtRef.current - pausedMs) / 1000;
+  };
+
+  useEffect(() => {
+    setLanguage(settings.transcriptionLanguage || '');
+  }, [settings.transcriptionLanguage]);
+
   // ─── BATCH MODE ───────────────────────────────────
 
   const startBatchRecording = async () => {
     setError(null);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings.audioInputDeviceId) });
       const recorder = new MediaRecorder(stream);
+      startMonitor(stream);
 
       mediaRecorderRef.current = recorder;
       chunksRef.current = [];
@@ -77,18 +152,17 @@ export const Recorder: React.FC<RecorderProps> = ({
       };
 
       recorder.start(1000);
-      setPhase('recording');
-      setTimer(0);
-      timerRef.current = window.setInterval(() => setTimer(t => t + 1), 1000);
+      beginRecording();
     } catch (err) {
-      setError("Microphone access denied. Please check browser permissions.");
+      setError(describeMicError(err));
     }
   };
 
   const stopBatchRecording = () => {
-    if (!mediaRecorderRef.current || phase !== 'recording') return;
+    if (!mediaRecorderRef.current || (phase !== 'recording' && phase !== 'paused')) return;
 
     const recorder = mediaRecorderRef.current;
+    const duration = recordedSeconds();
 
     recorder.onstop = async () => {
       if (chunksRef.current.length === 0) {
@@ -98,39 +172,29 @@ export const Recorder: React.FC<RecorderProps> = ({
       }
 
       const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+      const startedAt = startedAtRef.current;
 
-      await saveAudioBackup(blob, sessionId, paramId);
-
-      const reader = new FileReader();
+      const audioKey = await saveAudioBackup(blob, sessionId, paramId);
+      recorder.stream.getTracks().forEach(track => track.stop());
 
-      reader.onloadend = async () => {
-        const result = reader.result as string;
-        if (!result) {
-          setError("Failed to process audio file.");
-          setPhase('idle');
+      // Compressed and sized for the provider on the way out
+      setPhase('transcribing');
+      try {
+        await onStopAndTranscribe(blob, { language, startedAt, duration, audioKey });
+        setPhase('ready');
+      } catch (err: any) {
+        if (isAbortError(err)) {
+          // Cancelled by the user; the recording is still in the audio backup
+          setPhase(hasTranscript ? 'ready' : 'idle');
           return;
         }
-        const base64String = result.split(',')[1];
-        setPhase('transcribing');
-        try {
-          await onStopAndTranscribe(base64String, blob.type);
-          setPhase('ready');
-        } catch (err: any) {
-          setError(err.message || "Transcription failed.");
-          setPhase('idle');
-        }
-      };
-
-      reader.onerror = () => {
-        setError("Error reading audio data.");
+        setError(err.message || "Transcription failed.");
         setPhase('idle');
-      };
-
-      reader.readAsDataURL(blob);
-      recorder.stream.getTracks().forEach(track => track.stop());
+      }
     };
 
     recorder.stop();
+    stopMonitor();
     if (timerRef.current) clearInterval(timerRef.current);
   };
 
@@ -139,34 +203,22 @@ export const Recorder: React.FC<RecorderProps> = ({
   const startLiveRecording = async () => {
     setError(null);
     setLiveTranscript('');
+    setLiveChunks([]);
     setLiveStatus('connecting');
 
-    let apiKey = '';
-
-    if (provider === 'sarvam' || provider === 'openrouter') {
-      if (!sarvamApiKey) {
-        setError("Sarvam API Key is required for live transcription. Please add it in Settings.");
-        setLiveStatus('idle');
-        return;
-      }
-      apiKey = sarvamApiKey;
-    } else {
-      if (!googleApiKey) {
-        setError("Google API Key is required. Please add it in Settings.");
+    try {
+      const { adapter, settings: engineSettings } = getLiveTranscriptionProvider(settings);
+      if (!adapter.hasCredentials(engineSettings)) {
+        setError(`${adapter.label} credentials are required for live transcription. Please add them in Settings.`);
         setLiveStatus('idle');
         return;
       }
-      apiKey = googleApiKey;
-    }
 
-    try {
-      const transcriptionModel = (provider === 'sarvam' || provider === 'openrouter') ? 'saaras:v3' : 'gemini-2.5-flash';
-      const transcriptionProvider = provider === 'openrouter' ? 'sarvam' : provider;
-
-      await startLiveTranscription(apiKey, transcriptionProvider || 'google', transcriptionModel, {
-        onTranscript: (text, _isFinal) => {
-          setLiveTranscript(prev => prev + text);
-        },
+      await startLiveTranscription({ ...settings, transcriptionLanguage: language }, {
+        onTranscript: setLiveTranscript,
+        onChunksChange: setLiveChunks,
+        onChunkError: (err) => setError(err.message),
+        onInputStream: startMonitor,
         onError: (err) => {
           setError(err.message);
           setLiveStatus('disconnected');
@@ -174,31 +226,45 @@ export const Recorder: React.FC<RecorderProps> = ({
         onStatusChange: (status) => {
           setLiveStatus(status === 'connected' ? 'connected' : status === 'connecting' ? 'connecting' : 'idle');
         },
-      });
+      }, paramId);
 
-      setPhase('recording');
-      setTimer(0);
-      timerRef.current = window.setInterval(() => setTimer(t => t + 1), 1000);
+      beginRecording();
     } catch (err: any) {
-      setError(err.message || "Failed to start live transcription.");
+      stopMonitor();
+      setError(err instanceof DOMException ? describeMicError(err) : err.message || "Failed to start live transcription.");
       setLiveStatus('idle');
     }
   };
 
   const stopLiveRecording = async () => {
     if (timerRef.current) clearInterval(timerRef.current);
+    stopMonitor();
 
     try {
       setPhase('transcribing');
-      const { transcript, audioBlob } = await stopLiveTranscription();
+      const startedAt = startedAtRef.current;
+      const duration = recordedSeconds();
+      const { transcript, audioBlob, chunkTexts, unsentChunks } = await stopLiveTranscription();
 
       // Save backup
-      await saveAudioBackup(audioBlob, sessionId, paramId);
+      const audioKey = await saveAudioBackup(audioBlob, sessionId, paramId);
 
       setLiveStatus('idle');
+      // Unsent chunks wait in the backlog and are slotted into the turn once transcribed
+      const queued = audioKey !== undefined && unsentChunks.length > 0;
+      if (unsentChunks.length > 0) {
+        setError(queued
+          ? `${unsentChunks.length} part${unsentChunks.length === 1 ? '' : 's'} of the answer could not be transcribed yet. They are saved and will be added to the transcript when the connection is back.`
+          : `${unsentChunks.length} part${unsentChunks.length === 1 ? '' : 's'} of the answer could not be transcribed, and the recording could not be saved to retry them.`);
+      }
 
-      if (transcript && onLiveStopAndTranscribe) {
-        await onLiveStopAndTranscribe(transcript, audioBlob);
+      if ((transcript || queued) && onLiveStopAndTranscribe) {
+        await onLiveStopAndTranscribe(transcript, audioBlob, { language, startedAt, duration, audioKey, liveChunks: queued ? chunkTexts : undefined });
+        if (queued) {
+          // Queued only once the turn exists, so recovered text has a place to go
+          await queueBacklogChunks(unsentChunks, { sessionId, parameterId: paramId, audioKey, language });
+          onRetryBacklog?.();
+        }
         setPhase('ready');
       } else if (!transcript) {
         setError("No transcript was captured. Please try again.");
@@ -207,12 +273,57 @@ export const Recorder: React.FC<RecorderProps> = ({
         setPhase('ready');
       }
     } catch (err: any) {
+      if (isAbortError(err)) {
+        // Translation cancelled; the recording is still in the audio backup
+        setLiveStatus('idle');
+        setPhase(hasTranscript ? 'ready' : 'idle');
+        return;
+      }
       setError(err.message || "Error stopping live transcription.");
       setLiveStatus('idle');
       setPhase('idle');
     }
   };
 
+  // ─── IMPORT ──────────────────────────────────────
+
+  // A file recorded elsewhere (phone, video call) goes through the same transcription as a recording
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // So the same file can be picked again
+    if (!file) return;
+
+    const audio = withMediaType(file);
+    if (!/^(audio|video)\//.test(audio.type)) {
+      setError(`${file.name} is not an audio or video file.`);
+      return;
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      setError(`${file.name} is ${Math.round(file.size / 1024 / 1024)} MB; files up to ${MAX_IMPORT_BYTES / 1024 / 1024} MB can be imported. Extract the audio track or split the file first.`);
+      return;
+    }
+
+    setError(null);
+    setPhase('transcribing');
+    const duration = await mediaDurationSeconds(audio) ?? 0;
+    // The file was last written when its recording ended
+    const startedAt = file.lastModified - duration * 1000;
+    const audioKey = await saveAudioBackup(audio, sessionId, paramId);
+
+    try {
+      await onStopAndTranscribe(audio, { language, startedAt, duration, audioKey, imported: true });
+      setPhase('ready');
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        // Cancelled by the user; the file is still in the audio backup
+        setPhase(hasTranscript ? 'ready' : 'idle');
+        return;
+      }
+      setError(err.message || `Could not transcribe ${file.name}.`);
+      setPhase(hasTranscript ? 'ready' : 'idle');
+    }
+  };
+
   // ─── UNIFIED HANDLERS ───────────────────────────
 
   const handleStartRecording = () => {
@@ -223,6 +334,33 @@ export const Recorder: React.FC<RecorderProps> = ({
     }
   };
 
+  // A pause keeps the same clip: one backup and one transcript turn for the whole answer
+  const handlePauseRecording = () => {
+    if (phase !== 'recording') return;
+    if (transcriptionMode === 'live') {
+      pauseLiveTranscription();
+    } else {
+      mediaRecorderRef.current?.pause();
+    }
+    if (timerRef.current) clearInterval(timerRef.current);
+    stopMonitor(); // Pauses are silent; don't let them trip the silence alarm
+    pausedAtRef.current = Date.now();
+    setPhase('paused');
+  };
+
+  const handleResumeRecording = () => {
+    if (phase !== 'paused') return;
+    if (transcriptionMode === 'live') {
+      resumeLiveTranscription();
+    } else {
+      mediaRecorderRef.current?.resume();
+    }
+    pausedMsRef.current += Date.now() - pausedAtRef.current;
+    if (streamRef.current) startMonitor(streamRef.current);
+    startTimer();
+    setPhase('recording');
+  };
+
   const handleStopRecording = () => {
     if (transcriptionMode === 'live') {
       stopLiveRecording();
@@ -270,8 +408,13 @@ export const Recorder: React.FC<RecorderProps> = ({
           <div className="flex-1">
             <p className="text-sm font-black uppercase text-black tracking-tight">{label}</p>
             <p className="text-xs font-bold text-black/60">{desc}</p>
+            {retryInfo && (
+              <p className="text-[10px] font-black uppercase tracking-wider text-black mt-1">
+                Attempt {retryInfo.attempt} of {retryInfo.maxAttempts} · {retryInfo.reason}, retrying in {Math.ceil(retryInfo.delayMs / 1000)}s
+              </p>
+            )}
           </div>
-          {onCancelProcessing && phase !== 'transcribing' && (
+          {onCancelProcessing && (
             <Button variant="outline" size="sm" onClick={onCancelProcessing} className="bg-tertiary hover:bg-tertiary">
               <XCircle className="w-4 h-4 mr-2" /> Cancel
             </Button>
@@ -295,6 +438,52 @@ export const Recorder: React.FC<RecorderProps> = ({
         </div>
       )}
 
+      {(phase === 'idle' || phase === 'ready') && (
+        <div className="flex items-center gap-2">
+          <Languages className="w-4 h-4 text-black shrink-0" />
+          <label htmlFor="recording-language" className="text-[10px] font-black text-black uppercase tracking-widest">Spoken Language</label>
+          <select
+            id="recording-language"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className="neo-brutalism-input text-xs h-8 px-2 py-0 w-auto"
+          >
+            <option value="">Auto-detect</option>
+            {SPOKEN_LANGUAGES.map(l => (
+              <option key={l.code} value={l.code}>{l.label}</option>
+            ))}
+            {language && !SPOKEN_LANGUAGES.some(l => l.code === language) && (
+              <option value={language}>{languageLabel(language)}</option>
+            )}
+          </select>
+          {language !== (settings.transcriptionLanguage || '') && (
+            <span className="text-[10px] font-black uppercase text-black opacity-60">This recording only</span>
+          )}
+          {transcriptionMode === 'live' && (
+            <span className="ml-auto flex items-center gap-1 text-[10px] font-black uppercase tracking-wider text-black" title="Engine transcribing the live stream (set in Settings)">
+              <Radio className="w-3 h-3" /> {describeLiveEngine(settings)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {backlogCount > 0 && (
+        <div className="flex items-center gap-2 px-3 py-2 bg-tertiary border-[3px] border-black text-black">
+          <CloudOff className="w-4 h-4 shrink-0" />
+          <span className="text-[10px] font-black uppercase tracking-wider flex-1">
+            {backlogCount} live chunk{backlogCount === 1 ? '' : 's'} waiting to be transcribed
+          </span>
+          {onRetryBacklog && (
+            <button
+              onClick={onRetryBacklog}
+              className="flex items-center gap-1 px-2 py-0.5 border-2 border-black bg-white text-[10px] font-black uppercase tracking-wider"
+            >
+              <RotateCcw className="w-3 h-3" /> Retry now
+            </button>
+          )}
+        </div>
+      )}
+
       {/* PHASE: IDLE — Show Record button */}
       {phase === 'idle' && (
         <Button
@@ -307,16 +496,34 @@ export const Recorder: React.FC<RecorderProps> = ({
         </Button>
       )}
 
-      {/* PHASE: RECORDING — Show Stop button only */}
-      {phase === 'recording' && (
+      {/* PHASE: IDLE / READY — Import a file instead of recording */}
+      {(phase === 'idle' || phase === 'ready') && (
+        <>
+          <input ref={importInputRef} type="file" accept={IMPORT_ACCEPT} onChange={handleImportFile} className="hidden" />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isProcessing}
+            title="Transcribe an audio or video file recorded elsewhere, e.g. on a phone or in a video call"
+            className="w-full flex items-center justify-center gap-2 py-2 border-[3px] border-black bg-white hover:bg-secondary text-[10px] font-black text-black uppercase tracking-wider transition-colors"
+          >
+            <Upload className="w-4 h-4" /> Import Audio or Video File
+          </button>
+        </>
+      )}
+
+      {/* PHASE: RECORDING / PAUSED — Pause or Resume, and Stop */}
+      {(phase === 'recording' || phase === 'paused') && (
         <div className="space-y-4">
           {/* Live transcript display */}
           {transcriptionMode === 'live' && (
             <div className="bg-slate-50 border-[3px] border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
               <div className="flex items-center gap-2 mb-2">
-                <Radio className="w-4 h-4 text-black animate-pulse" />
+                <Radio className={`w-4 h-4 text-black ${phase === 'paused' ? '' : 'animate-pulse'}`} />
                 <span className="text-[10px] font-black text-black uppercase tracking-widest">
-                  {liveStatus === 'connecting' ? 'Connecting...' : 'Live Transcript'}
+                  {liveStatus === 'connecting' ? 'Connecting...' : phase === 'paused' ? 'Live Transcript (Paused)' : 'Live Transcript'}
+                </span>
+                <span className="ml-auto text-[10px] font-black uppercase tracking-wider text-black opacity-60">
+                  {describeLiveEngine(settings)}
                 </span>
               </div>
               <div className="text-sm font-bold text-black leading-relaxed min-h-[60px] max-h-40 overflow-y-auto whitespace-pre-wrap">
@@ -325,24 +532,67 @@ export const Recorder: React.FC<RecorderProps> = ({
                   : 'Listening... start speaking.'
                 )}
               </div>
+              {liveChunks.length > 0 && (
+                <div className="flex items-center gap-2 mt-3">
+                  <div className="flex flex-wrap gap-1 flex-1" title="One block per utterance sent for transcription">
+                    {liveChunks.map((status, i) => (
+                      <span
+                        key={i}
+                        title={`Chunk ${i + 1}: ${status === 'failed' && !navigator.onLine ? 'waiting for connection' : status}`}
+                        className={`w-2.5 h-2.5 border border-black ${status === 'done' ? 'bg-black' : status === 'failed' ? 'bg-tertiary' : 'bg-white animate-pulse'}`}
+                      />
+                    ))}
+                  </div>
+                  {liveChunks.includes('failed') && (
+                    <button
+                      onClick={retryFailedLiveChunks}
+                      className="flex items-center gap-1 px-2 py-0.5 border-2 border-black bg-tertiary text-[10px] font-black uppercase tracking-wider"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Retry {liveChunks.filter(s => s === 'failed').length} failed
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
-          {/* Stop Recording button — full width */}
-          <Button
-            onClick={handleStopRecording}
-            variant="primary"
-            className="w-full h-20 bg-black text-white text-xl"
-          >
-            <Square className="w-5 h-5 mr-3 fill-white" />
-            STOP RECORDING
-          </Button>
+          {phase === 'recording' && <InputLevelMeter level={inputLevel} />}
+
+          <div className="grid grid-cols-3 gap-3">
+            {phase === 'recording' ? (
+              <Button
+                onClick={handlePauseRecording}
+                variant="outline"
+                className="h-20 bg-white text-black border-[3px] border-black flex flex-col items-center justify-center gap-1"
+              >
+                <Pause className="w-5 h-5 fill-black" />
+                <span className="text-[10px] font-black uppercase tracking-wider">Pause</span>
+              </Button>
+            ) : (
+              <Button
+                onClick={handleResumeRecording}
+                variant="secondary"
+                className="h-20 bg-secondary text-black border-[3px] border-black flex flex-col items-center justify-center gap-1"
+              >
+                <Play className="w-5 h-5 fill-black" />
+                <span className="text-[10px] font-black uppercase tracking-wider">Resume</span>
+              </Button>
+            )}
+            <Button
+              onClick={handleStopRecording}
+              variant="primary"
+              className="col-span-2 h-20 bg-black text-white text-xl"
+            >
+              <Square className="w-5 h-5 mr-3 fill-white" />
+              STOP RECORDING
+            </Button>
+          </div>
 
           {/* Timer */}
           <div className="flex items-center justify-center py-2">
             <div className="inline-flex items-center gap-3 px-4 py-2 bg-secondary border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
-              <span className={`w-3 h-3 animate-pulse ${transcriptionMode === 'live' ? 'bg-main' : 'bg-black'}`}></span>
-              <span className="text-[12px] font-black text-black tabular-nums uppercase tracking-widest">{formatTime(timer)} recording</span>
+              <span className={`w-3 h-3 ${phase === 'paused' ? 'bg-white border-2 border-black' : `animate-pulse ${transcriptionMode === 'live' ? 'bg-main' : 'bg-black'}`}`}></span>
+              <span className="text-[12px] font-black text-black tabular-nums uppercase tracking-widest">{formatTime(timer)} {phase === 'paused' ? 'paused' : 'recording'}</span>
             </div>
           </div>
         </div>
@@ -362,6 +612,8 @@ export const Recorder: React.FC<RecorderProps> = ({
             </Button>
             <Button
               onClick={handleAnalyzeProbe}
+              disabled={!canAnalyze}
+              title={canAnalyze ? undefined : 'The selected provider does not support analysis'}
               variant="secondary"
               className="h-20 bg-secondary text-black border-[3px] border-black flex flex-col items-center justify-center gap-1"
             >
@@ -370,6 +622,8 @@ export const Recorder: React.FC<RecorderProps> = ({
             </Button>
             <Button
               onClick={handleAnalyzeFinish}
+              disabled={!canAnalyze}
+              title={canAnalyze ? undefined : 'The selected provider does not support analysis'}
               variant="primary"
               className="h-20 bg-black text-white flex flex-col items-center justify-center gap-1"
             >
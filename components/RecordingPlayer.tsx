@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Headphones } from 'lucide-react';
+import { getQuestionAudio, getSessionAudio } from '../utils/indexedDb';
+
+// A request to play a recording from a given moment; id distinguishes repeated seeks to the same spot
+export interface SeekRequest {
+  audioKey: number;
+  time: number; // Seconds into the recording
+  id: number;
+}
+
+interface RecordingPlayerProps {
+  sessionId: string;
+  parameterId?: string; // Only this parameter's recordings; the whole session's otherwise
+  refreshKey?: unknown; // Reloads the recordings when it changes, e.g. after a new recording
+  seekRequest?: SeekRequest | null;
+  parameterLabel?: (parameterId: string) => string;
+}
+
+interface PlayableRecording {
+  key: number;
+  parameterId: string;
+  url: string;
+}
+
+/**
+ * Plays the audio backups kept in IndexedDB. Transcript sentences and
+ * citations seek here through seekRequest.
+ */
+export const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ sessionId, parameterId, refreshKey, seekRequest, parameterLabel }) => {
+  const [recordings, setRecordings] = useState<PlayableRecording[]>([]);
+  const [currentKey, setCurrentKey] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const pendingSeekRef = useRef<number | null>(null); // Applied once the selected recording has loaded
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: string[] = [];
+    (parameterId ? getQuestionAudio(sessionId, parameterId) : getSessionAudio(sessionId))
+      .then(items => {
+        if (cancelled) return;
+        const loaded = items
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .map(item => ({ key: item.timestamp, parameterId: item.parameterId, url: URL.createObjectURL(item.blob) }));
+        urls = loaded.map(r => r.url);
+        setRecordings(loaded);
+        setCurrentKey(prev => loaded.some(r => r.key === prev) ? prev : loaded[loaded.length - 1]?.key ?? null);
+      })
+      .catch(err => console.error("Failed to load audio backups:", err));
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [sessionId, parameterId, refreshKey]);
+
+  useEffect(() => {
+    if (!seekRequest || !recordings.some(r => r.key === seekRequest.audioKey)) return;
+    if (seekRequest.audioKey === currentKey && audioRef.current && audioRef.current.readyState > 0) {
+      audioRef.current.currentTime = seekRequest.time;
+      audioRef.current.play().catch(() => undefined);
+    } else {
+      pendingSeekRef.current = seekRequest.time;
+      setCurrentKey(seekRequest.audioKey);
+    }
+  }, [seekRequest, recordings]);
+
+  const handleLoadedMetadata = () => {
+    if (pendingSeekRef.current === null || !audioRef.current) return;
+    audioRef.current.currentTime = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    audioRef.current.play().catch(() => undefined);
+  };
+
+  if (!recordings.length) return null;
+  const current = recordings.find(r => r.key === currentKey);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-white border-[3px] border-black p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+      <Headphones className="w-5 h-5 text-black shrink-0" />
+      <select
+        value={currentKey ?? ''}
+        onChange={(e) => setCurrentKey(Number(e.target.value))}
+        className="border-2 border-black bg-white px-2 py-1 text-[10px] font-black uppercase tracking-wider focus:outline-none"
+      >
+        {recordings.map((recording, i) => (
+          <option key={recording.key} value={recording.key}>
+            {parameterLabel ? `${parameterLabel(recording.parameterId)} · ` : ''}Recording {i + 1} · {new Date(recording.key).toLocaleTimeString()}
+          </option>
+        ))}
+      </select>
+      {current && (
+        <audio
+          ref={audioRef}
+          key={current.key}
+          src={current.url}
+          controls
+          onLoadedMetadata={handleLoadedMetadata}
+          className="flex-1 min-w-[200px] h-8"
+        />
+      )}
+    </div>
+  );
+};
@@ -3,12 +3,28 @@ import Papa from 'papaparse';
 import {
   Upload, Download, Play, FileText, Check,
   ChevronDown, ChevronRight, Settings2, Users,
-  Briefcase, Key, ExternalLink, AlertTriangle, Globe, Zap, Trash2, Database
+  Briefcase, Key, ExternalLink, AlertTriangle, Globe, Zap, Trash2, Database, Server, RefreshCcw, Mic, PlayCircle, Coins, Languages, AudioLines
 } from 'lucide-react';
 import { clearAllBackups, getStorageStats } from '../utils/indexedDb';
 import { useInterview } from '../context/InterviewContext';
+import { findProvider, listProviders, fetchSelfHostedModels, parseReplayBundle, resetReplay, DEFAULT_SELF_HOSTED_BASE_URL, DEFAULT_WHISPER_BASE_URL } from '../services/providers';
 import { Button } from './Button';
-import { RubricItem } from '../types';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { ConsensusModelsEditor } from './ConsensusModelsEditor';
+import { MicCheck } from './MicCheck';
+import { LiveSegmentation, ModelPrice, RubricItem } from '../types';
+import { demoReplayBundle } from '../data/demoReplayBundle';
+import { DEFAULT_MODEL_PRICES } from '../data/modelPrices';
+import { SPOKEN_LANGUAGES, languageLabel } from '../utils/languages';
+import { DEFAULT_LIVE_SEGMENTATION } from '../utils/voiceSegmenter';
+import { clearUsageLedger, getModelPrice, getUsageLedger, summarizeUsage, formatCost } from '../services/usageLedger';
+
+const LIVE_SEGMENTATION_FIELDS: { key: keyof LiveSegmentation; label: string; unit: string; step: number }[] = [
+  { key: 'thresholdDb', label: 'Speech Level', unit: 'dBFS', step: 1 },
+  { key: 'hangoverMs', label: 'Pause to Cut', unit: 'ms', step: 100 },
+  { key: 'minChunkMs', label: 'Min Chunk', unit: 'ms', step: 100 },
+  { key: 'maxChunkMs', label: 'Max Chunk', unit: 'ms', step: 1000 },
+];
 
 export const Settings: React.FC = () => {
   const { settings, updateSettings, rubric, setRubric, fullRubric, setFullRubric, setHasStarted } = useInterview();
@@ -40,6 +56,10 @@ export const Settings: React.FC = () => {
 
   const [expandedCompetencies, setExpandedCompetencies] = useState<Record<string, boolean>>({});
   const [storageStats, setStorageStats] = useState<{ count: number; sizeBytes: number } | null>(null);
+  const [isFetchingModels, setIsFetchingModels] = useState(false);
+  const [modelFetchError, setModelFetchError] = useState<string | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [usageLedger, setUsageLedger] = useState(() => getUsageLedger());
 
   useEffect(() => {
     loadStorageStats();
@@ -57,6 +77,41 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const handleClearUsage = () => {
+    if (window.confirm("Clear the usage history for all sessions? Cost totals will restart from zero.")) {
+      clearUsageLedger();
+      setUsageLedger([]);
+    }
+  };
+
+  // Models worth pricing: built-in defaults, overrides, anything already used, and the current model
+  const pricedModels = useMemo(() => Array.from(new Set([
+    settings.modelName,
+    ...Object.keys(DEFAULT_MODEL_PRICES),
+    ...Object.keys(settings.modelPrices || {}),
+    ...usageLedger.map(entry => entry.model)
+  ])).filter(Boolean), [settings.modelName, settings.modelPrices, usageLedger]);
+
+  const updateModelPrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = getModelPrice(model, settings.modelPrices) || { inputPerMillion: 0, outputPerMillion: 0 };
+    updateSettings({
+      modelPrices: {
+        ...settings.modelPrices,
+        [model]: { ...current, [field]: Math.max(0, parseFloat(value) || 0) }
+      }
+    });
+  };
+
+  const usageTotals = summarizeUsage(usageLedger, settings.modelPrices);
+
+  // Empty input restores the default
+  const updateLiveSegmentation = (field: keyof LiveSegmentation, value: string) => {
+    const parsed = parseFloat(value);
+    updateSettings({
+      liveSegmentation: { ...settings.liveSegmentation, [field]: isNaN(parsed) ? undefined : parsed }
+    });
+  };
+
   useEffect(() => {
     const checkKey = async () => {
       // @ts-ignore - aistudio is provided by the environment
@@ -64,18 +119,15 @@ export const Settings: React.FC = () => {
         // @ts-ignore
         const hasKey = await window.aistudio.hasSelectedApiKey();
         setIsApiKeyConnected(hasKey);
-      } else if (settings.provider === 'google') {
-        setIsApiKeyConnected(!!settings.googleApiKey && settings.googleApiKey.length > 5);
-      } else if (settings.provider === 'openrouter') {
-        setIsApiKeyConnected(!!settings.openRouterApiKey && settings.openRouterApiKey.length > 5);
-      } else if (settings.provider === 'sarvam') {
-        setIsApiKeyConnected(!!settings.sarvamApiKey && settings.sarvamApiKey.length > 5);
+      } else {
+        const adapter = findProvider(settings.provider);
+        setIsApiKeyConnected(!!adapter && adapter.hasCredentials(settings));
       }
     };
     checkKey();
     const interval = setInterval(checkKey, 2000);
     return () => clearInterval(interval);
-  }, [settings.provider, settings.openRouterApiKey, settings.sarvamApiKey]);
+  }, [settings.provider, settings.googleApiKey, settings.openRouterApiKey, settings.sarvamApiKey, settings.selfHostedBaseUrl, settings.modelName]);
 
   const handleConnectKey = async () => {
     // @ts-ignore
@@ -86,6 +138,46 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const handleFetchModels = async () => {
+    setIsFetchingModels(true);
+    setModelFetchError(null);
+    try {
+      const models = await fetchSelfHostedModels(settings);
+      if (models.length === 0) throw new Error("The server did not report any models.");
+      updateSettings({
+        selfHostedModels: models,
+        modelName: models.includes(settings.modelName) ? settings.modelName : models[0]
+      });
+    } catch (err: any) {
+      setModelFetchError(err.message || "Failed to fetch models.");
+    } finally {
+      setIsFetchingModels(false);
+    }
+  };
+
+  const handleReplayBundleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const bundle = parseReplayBundle(reader.result as string);
+        resetReplay();
+        updateSettings({ replayBundle: bundle });
+        setReplayError(null);
+      } catch (err: any) {
+        setReplayError(err.message || "Failed to read replay bundle.");
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const replayBundle = settings.replayBundle || demoReplayBundle;
+  const selfHostedModels = (settings.selfHostedModels || []).filter(Boolean);
+  const transcriptionProviders = listProviders().filter(p => p.capabilities.transcription);
+
   const groupedRubric = useMemo(() => {
     const groups: Record<string, RubricItem[]> = {};
     rawRubric.forEach(item => {
@@ -256,6 +348,38 @@ export const Settings: React.FC = () => {
                       <p className="text-xs text-black font-bold leading-relaxed">Access top-tier models (Claude 3.5, GPT-4o, Gemini 1.5 Pro) with Sarvam transcription.</p>
                     </button>
 
+                    <button
+                      onClick={() => settings.provider !== 'selfhosted' && updateSettings({
+                        provider: 'selfhosted',
+                        selfHostedBaseUrl: settings.selfHostedBaseUrl || DEFAULT_SELF_HOSTED_BASE_URL,
+                        modelName: selfHostedModels[0] || ''
+                      })}
+                      className={`p-6 border-[3px] border-black text-left transition-all col-span-2 ${settings.provider === 'selfhosted'
+                        ? 'bg-main translate-x-[-4px] translate-y-[-4px] shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]'
+                        : 'bg-white hover:bg-slate-50'
+                        }`}
+                    >
+                      <div className="flex items-center gap-2 mb-2">
+                        <Server className={`w-5 h-5 text-black`} />
+                        <span className={`text-sm font-black uppercase tracking-tight text-black`}>Self-Hosted LLM</span>
+                      </div>
+                      <p className="text-xs text-black font-bold leading-relaxed">Keep transcripts on your network. Any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio) for analysis.</p>
+                    </button>
+
+                    <button
+                      onClick={() => settings.provider !== 'replay' && updateSettings({ provider: 'replay', modelName: 'replay' })}
+                      className={`p-6 border-[3px] border-black text-left transition-all col-span-2 ${settings.provider === 'replay'
+                        ? 'bg-main translate-x-[-4px] translate-y-[-4px] shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]'
+                        : 'bg-white hover:bg-slate-50'
+                        }`}
+                    >
+                      <div className="flex items-center gap-2 mb-2">
+                        <PlayCircle className={`w-5 h-5 text-black`} />
+                        <span className={`text-sm font-black uppercase tracking-tight text-black`}>Offline Replay (Demo)</span>
+                      </div>
+                      <p className="text-xs text-black font-bold leading-relaxed">No API keys. Canned transcripts, STAR evidence and ratings for training, demos and UI work.</p>
+                    </button>
+
                     <button
                       onClick={() => settings.provider !== 'google' && updateSettings({ provider: 'google', modelName: 'gemini-2.5-flash' })}
                       className={`p-6 border-[3px] border-black text-left transition-all hidden ${settings.provider === 'google'
@@ -370,6 +494,102 @@ export const Settings: React.FC = () => {
                         </div>
                       )}
                     </div>
+                  ) : settings.provider === 'selfhosted' ? (
+                    <div className="space-y-4 pt-6 border-t-[3px] border-black">
+                      <div className="space-y-2">
+                        <label className="text-sm font-black text-black uppercase tracking-tight flex items-center gap-2">
+                          <Server className="w-4 h-4 text-black" /> Server URL
+                        </label>
+                        <p className="text-xs text-black font-bold">
+                          Base URL of the OpenAI-compatible API, e.g. <code>{DEFAULT_SELF_HOSTED_BASE_URL}</code> for Ollama.
+                        </p>
+                      </div>
+                      <input
+                        type="text"
+                        value={settings.selfHostedBaseUrl || ''}
+                        onChange={(e) => updateSettings({ selfHostedBaseUrl: e.target.value })}
+                        placeholder={DEFAULT_SELF_HOSTED_BASE_URL}
+                        className="neo-brutalism-input text-sm"
+                      />
+                      <div className="space-y-2">
+                        <label className="text-sm font-black text-black uppercase tracking-tight flex items-center gap-2">
+                          <Key className="w-4 h-4 text-black" /> API Key (Optional)
+                        </label>
+                        <p className="text-xs text-black font-bold opacity-60">
+                          Sent as a Bearer token. Leave empty if your server does not require authentication.
+                        </p>
+                        <input
+                          type="password"
+                          value={settings.selfHostedApiKey || ''}
+                          onChange={(e) => updateSettings({ selfHostedApiKey: e.target.value })}
+                          placeholder="Bearer token..."
+                          className="neo-brutalism-input text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <label className="text-sm font-black text-black uppercase tracking-tight flex items-center gap-2">
+                            <Settings2 className="w-4 h-4 text-black" /> Models
+                          </label>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleFetchModels}
+                            disabled={isFetchingModels || !settings.selfHostedBaseUrl}
+                            className="bg-white h-8 px-2 text-[10px]"
+                          >
+                            <RefreshCcw className={`w-3.5 h-3.5 mr-1 ${isFetchingModels ? 'animate-spin' : ''}`} /> Fetch From Server
+                          </Button>
+                        </div>
+                        <p className="text-xs text-black font-bold opacity-60">
+                          One model id per line. These are offered in the Model Name field below.
+                        </p>
+                        <textarea
+                          value={(settings.selfHostedModels || []).join('\n')}
+                          onChange={(e) => updateSettings({ selfHostedModels: e.target.value.split('\n').map(m => m.trim()) })}
+                          placeholder={"llama3.1:8b\nqwen2.5:14b"}
+                          className="neo-brutalism-input text-sm min-h-[5rem] resize-none"
+                        />
+                        {modelFetchError && (
+                          <p className="text-[10px] text-black font-black uppercase bg-tertiary p-2 border-2 border-black">{modelFetchError}</p>
+                        )}
+                      </div>
+                      <p className="text-[10px] text-black font-bold bg-secondary p-3 border-2 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                        <span className="font-black">Note:</span> Self-hosted models are used for analysis only. Audio transcription still requires a speech-to-text provider.
+                      </p>
+                    </div>
+                  ) : settings.provider === 'replay' ? (
+                    <div className="space-y-4 pt-6 border-t-[3px] border-black">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <label className="text-sm font-black text-black uppercase tracking-tight flex items-center gap-2">
+                            <FileText className="w-4 h-4 text-black" /> Fixture Bundle
+                          </label>
+                          <p className="text-xs text-black font-bold opacity-60">
+                            {replayBundle.name} • {Object.keys(replayBundle.fixtures).length} fixtures{replayBundle.fallback ? ' + fallback' : ''}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          {settings.replayBundle && (
+                            <Button variant="outline" size="sm" onClick={() => { resetReplay(); updateSettings({ replayBundle: undefined }); }} className="bg-white h-8 px-2 text-[10px]">
+                              Use Demo
+                            </Button>
+                          )}
+                          <label className="cursor-pointer">
+                            <input type="file" accept=".json,application/json" onChange={handleReplayBundleUpload} className="hidden" />
+                            <Button variant="outline" size="sm" className="pointer-events-none bg-white h-8 px-2 text-[10px]">
+                              <Upload className="w-3.5 h-3.5 mr-1" /> Upload JSON
+                            </Button>
+                          </label>
+                        </div>
+                      </div>
+                      <p className="text-[10px] text-black font-bold bg-secondary p-3 border-2 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                        <span className="font-black">Note:</span> Fixtures are keyed by rubric id. Each recording returns the next canned transcript; live mode is not replayed.
+                      </p>
+                      {replayError && (
+                        <p className="text-[10px] text-black font-black uppercase bg-tertiary p-2 border-2 border-black">{replayError}</p>
+                      )}
+                    </div>
                   ) : (
                     <div className="space-y-4 pt-6 border-t-[3px] border-black">
                       <div className="space-y-2">
@@ -393,6 +613,160 @@ export const Settings: React.FC = () => {
                   )}
                 </>
               )}
+
+              {/* Speech-to-Text engine, independent of the analysis provider */}
+              <div className="space-y-4 pt-6 border-t-[3px] border-black">
+                <div className="space-y-2">
+                  <label className="text-sm font-black text-black uppercase tracking-tight flex items-center gap-2">
+                    <Mic className="w-4 h-4 text-black" /> Speech-to-Text
+                  </label>
+                  <p className="text-xs text-black font-bold opacity-60">
+                    Used for batch and live transcription. Analysis still runs on the provider above.
+                  </p>
+                  <select
+                    value={settings.transcriptionProvider || ''}
+                    onChange={(e) => updateSettings({
+                      transcriptionProvider: e.target.value || undefined,
+                      transcriptionModelName: findProvider(e.target.value)?.defaultModel,
+                      ...(e.target.value === 'whisper' && !settings.whisperBaseUrl ? { whisperBaseUrl: DEFAULT_WHISPER_BASE_URL } : {})
+                    })}
+                    className="neo-brutalism-input text-sm"
+                  >
+                    <option value="">Same as AI provider</option>
+                    {transcriptionProviders.map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  {settings.transcriptionProvider && settings.transcriptionProvider !== settings.provider && (
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-black text-black uppercase tracking-tight">Transcription Model</label>
+                      <input
+                        type="text"
+                        value={settings.transcriptionModelName || ''}
+                        onChange={(e) => updateSettings({ transcriptionModelName: e.target.value })}
+                        placeholder={findProvider(settings.transcriptionProvider)?.defaultModel}
+                        className="neo-brutalism-input text-sm"
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                      <Languages className="w-4 h-4 text-black" /> Spoken Language
+                    </label>
+                    <select
+                      value={settings.transcriptionLanguage || ''}
+                      onChange={(e) => updateSettings({ transcriptionLanguage: e.target.value })}
+                      className="neo-brutalism-input text-sm"
+                    >
+                      <option value="">Auto-detect</option>
+                      {SPOKEN_LANGUAGES.map(l => (
+                        <option key={l.code} value={l.code}>{l.label}</option>
+                      ))}
+                      {settings.transcriptionLanguage && !SPOKEN_LANGUAGES.some(l => l.code === settings.transcriptionLanguage) && (
+                        <option value={settings.transcriptionLanguage}>{languageLabel(settings.transcriptionLanguage)}</option>
+                      )}
+                    </select>
+                    <p className="text-[10px] text-black font-bold opacity-60">
+                      Answers in other languages are translated to English for analysis; the original is kept. Can be changed per recording.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                      <Zap className="w-4 h-4 text-black" /> Live Engine
+                    </label>
+                    <select
+                      value={settings.liveTranscriptionProvider || ''}
+                      onChange={(e) => updateSettings({
+                        liveTranscriptionProvider: e.target.value || undefined,
+                        liveTranscriptionModelName: findProvider(e.target.value)?.defaultModel
+                      })}
+                      className="neo-brutalism-input text-sm"
+                    >
+                      <option value="">Same as speech-to-text</option>
+                      {transcriptionProviders.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                      ))}
+                    </select>
+                    <p className="text-[10px] text-black font-bold opacity-60">
+                      Transcribes live mode. OpenRouter needs a model with audio input.
+                    </p>
+                  </div>
+                  {settings.liveTranscriptionProvider && settings.liveTranscriptionProvider !== settings.provider && (
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-black text-black uppercase tracking-tight">Live Model</label>
+                      <input
+                        type="text"
+                        value={settings.liveTranscriptionModelName || ''}
+                        onChange={(e) => updateSettings({ liveTranscriptionModelName: e.target.value })}
+                        placeholder={findProvider(settings.liveTranscriptionProvider)?.defaultModel}
+                        className="neo-brutalism-input text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                    <AudioLines className="w-4 h-4 text-black" /> Live Segmentation
+                  </label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {LIVE_SEGMENTATION_FIELDS.map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <span className="text-[10px] font-black text-black uppercase tracking-wider">{field.label} ({field.unit})</span>
+                        <input
+                          type="number"
+                          step={field.step}
+                          value={settings.liveSegmentation?.[field.key] ?? ''}
+                          onChange={(e) => updateLiveSegmentation(field.key, e.target.value)}
+                          placeholder={String(DEFAULT_LIVE_SEGMENTATION[field.key])}
+                          className="neo-brutalism-input text-xs h-8 px-2"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-black font-bold opacity-60">
+                    Live mode sends each utterance once the speaker pauses. Raise the speech level in noisy rooms; shorter pauses give faster but choppier text.
+                  </p>
+                </div>
+
+                {settings.transcriptionProvider === 'whisper' && (
+                  <div className="space-y-4">
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                        <Server className="w-4 h-4 text-black" /> Whisper Server URL
+                      </label>
+                      <input
+                        type="text"
+                        value={settings.whisperBaseUrl || ''}
+                        onChange={(e) => updateSettings({ whisperBaseUrl: e.target.value })}
+                        placeholder={DEFAULT_WHISPER_BASE_URL}
+                        className="neo-brutalism-input text-sm"
+                      />
+                      <p className="text-[10px] text-black font-bold opacity-60">
+                        Any server exposing <code>/v1/audio/transcriptions</code> (whisper.cpp, faster-whisper).
+                      </p>
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                        <Key className="w-4 h-4 text-black" /> API Key (Optional)
+                      </label>
+                      <input
+                        type="password"
+                        value={settings.whisperApiKey || ''}
+                        onChange={(e) => updateSettings({ whisperApiKey: e.target.value })}
+                        placeholder="Bearer token..."
+                        className="neo-brutalism-input text-sm"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
           </section>
 
@@ -424,10 +798,22 @@ export const Settings: React.FC = () => {
                     value={settings.modelName}
                     onChange={(e) => updateSettings({ modelName: e.target.value })}
                     className="neo-brutalism-input pl-12 text-sm"
-                    placeholder={settings.provider === 'google' ? "gemini-2.5-flash" : "google/gemini-3-flash-preview"}
+                    placeholder={settings.provider === 'google' ? "gemini-2.5-flash" : settings.provider === 'selfhosted' ? "llama3.1:8b" : "google/gemini-3-flash-preview"}
+                    list={settings.provider === 'selfhosted' ? 'selfhosted-models' : undefined}
                   />
+                  {settings.provider === 'selfhosted' && (
+                    <datalist id="selfhosted-models">
+                      {selfHostedModels.map(m => <option key={m} value={m} />)}
+                    </datalist>
+                  )}
                 </div>
               </div>
+              <div className="space-y-1.5 md:col-span-2">
+                <label className="text-xs font-black text-black uppercase tracking-tight flex items-center gap-2">
+                  <Mic className="w-4 h-4 text-black" /> Microphone
+                </label>
+                <MicCheck />
+              </div>
             </div>
           </section>
 
@@ -544,10 +930,110 @@ export const Settings: React.FC = () => {
             </div>
           </section>
 
+          {/* Step 5: Usage & Pricing */}
+          <section className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] overflow-hidden">
+            <div className="px-6 py-4 border-b-[3px] border-black flex items-center gap-3 bg-white">
+              <span className="text-xs font-black text-black uppercase tracking-widest">5. Usage & Pricing</span>
+            </div>
+            <div className="p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Coins className="w-4 h-4 text-black" />
+                    <span className="text-sm font-black text-black uppercase">All Sessions</span>
+                  </div>
+                  <p className="text-xs text-black font-bold opacity-60">
+                    {usageTotals.calls} calls • {new Set(usageLedger.map(entry => entry.sessionId)).size} sessions • {formatCost(usageTotals.cost)} estimated
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleClearUsage}
+                  className="bg-tertiary hover:bg-tertiary"
+                  disabled={usageLedger.length === 0}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" /> Clear History
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-black text-black uppercase tracking-tight">Model Prices (USD)</label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSettings({ modelPrices: undefined })}
+                    disabled={!settings.modelPrices}
+                    className="bg-white h-8 px-2 text-[10px]"
+                  >
+                    <RefreshCcw className="w-3.5 h-3.5 mr-1" /> Reset To Defaults
+                  </Button>
+                </div>
+                <div className="border-[3px] border-black divide-y-2 divide-black">
+                  <div className="grid grid-cols-[1fr_repeat(3,5.5rem)] gap-2 px-3 py-2 bg-slate-50 text-[10px] font-black uppercase tracking-wider text-black">
+                    <span>Model</span>
+                    <span>In / 1M tok</span>
+                    <span>Out / 1M tok</span>
+                    <span>Audio / min</span>
+                  </div>
+                  {pricedModels.map(model => {
+                    const price = getModelPrice(model, settings.modelPrices);
+                    return (
+                      <div key={model} className="grid grid-cols-[1fr_repeat(3,5.5rem)] gap-2 px-3 py-2 items-center">
+                        <span className="text-xs font-black text-black truncate" title={model}>
+                          {model}{!price && <span className="ml-2 text-[9px] bg-tertiary border border-black px-1">NO PRICE</span>}
+                        </span>
+                        {(['inputPerMillion', 'outputPerMillion', 'audioPerMinute'] as (keyof ModelPrice)[]).map(field => (
+                          <input
+                            key={field}
+                            type="number"
+                            min="0"
+                            step="0.001"
+                            value={price?.[field] ?? ''}
+                            onChange={(e) => updateModelPrice(model, field, e.target.value)}
+                            placeholder="0"
+                            className="neo-brutalism-input text-xs h-8 px-2"
+                          />
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[10px] text-black font-bold opacity-60">
+                  Costs are estimates from these prices. OpenRouter calls use the cost OpenRouter reports.
+                </p>
+              </div>
+            </div>
+          </section>
+
+          {/* Step 6: Prompt Templates */}
+          <section className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] overflow-hidden">
+            <div className="px-6 py-4 border-b-[3px] border-black flex items-center gap-3 bg-white">
+              <span className="text-xs font-black text-black uppercase tracking-widest">6. Prompt Templates</span>
+            </div>
+            <div className="p-6">
+              <PromptTemplateEditor rubricItems={rawRubric} />
+            </div>
+          </section>
+
+          {/* Step 7: Consensus Models */}
+          <section className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] overflow-hidden">
+            <div className="px-6 py-4 border-b-[3px] border-black flex items-center gap-3 bg-white">
+              <span className="text-xs font-black text-black uppercase tracking-widest">7. Consensus Models</span>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-xs text-black font-bold opacity-60">
+                Optional. The summary screen can rate the interview with each of these models and suggest the median rating, flagging parameters where they disagree.
+              </p>
+              <ConsensusModelsEditor />
+            </div>
+          </section>
+
           <div className="pt-8 flex flex-col items-center gap-6">
             {!isApiKeyConnected && (
               <p className="text-xs text-black font-black uppercase bg-tertiary px-3 py-1 border-2 border-black">
-                Please connect your {settings.provider === 'google' ? 'Google' : settings.provider === 'sarvam' ? 'Sarvam AI' : 'OpenRouter'} API key to continue
+                Please connect your {findProvider(settings.provider)?.label || settings.provider} API key to continue
               </p>
             )}
             <Button size="lg" disabled={!isFormValid} onClick={handleStartInterview} className="w-full max-sm:max-w-none max-w-sm h-16 text-lg">
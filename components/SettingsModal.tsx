@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { Settings2, X, Key, Save, Globe } from 'lucide-react';
+import { Settings2, X, Key, Save, Globe, Server, Mic } from 'lucide-react';
 import { useInterview } from '../context/InterviewContext';
 import { Button } from './Button';
+import { MicCheck } from './MicCheck';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -13,21 +14,32 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     const [googleKey, setGoogleKey] = useState(settings.googleApiKey || '');
     const [openRouterKey, setOpenRouterKey] = useState(settings.openRouterApiKey || '');
     const [provider, setProvider] = useState(settings.provider);
+    const [selfHostedUrl, setSelfHostedUrl] = useState(settings.selfHostedBaseUrl || '');
+    const [selfHostedKey, setSelfHostedKey] = useState(settings.selfHostedApiKey || '');
+    const [selfHostedModel, setSelfHostedModel] = useState(
+        settings.provider === 'selfhosted' ? settings.modelName : (settings.selfHostedModels || []).filter(Boolean)[0] || ''
+    );
 
     if (!isOpen) return null;
 
+    const selfHostedModels = (settings.selfHostedModels || []).filter(Boolean);
+
     const handleSave = () => {
         updateSettings({
             googleApiKey: googleKey,
             openRouterApiKey: openRouterKey,
-            provider: provider
+            selfHostedBaseUrl: selfHostedUrl,
+            selfHostedApiKey: selfHostedKey,
+            provider: provider,
+            // The self-hosted server has its own model list, so switching to it must switch the model too
+            ...(provider === 'selfhosted' ? { modelName: selfHostedModel } : {})
         });
         onClose();
     };
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/60 backdrop-blur-[2px]">
-            <div className="bg-white border-[4px] border-black shadow-[12px_12px_0px_0px_rgba(0,0,0,1)] w-full max-w-lg overflow-hidden flex flex-col">
+            <div className="bg-white border-[4px] border-black shadow-[12px_12px_0px_0px_rgba(0,0,0,1)] w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
 
                 {/* Header */}
                 <header className="p-6 border-b-[4px] border-black flex justify-between items-center bg-secondary">
@@ -44,7 +56,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 </header>
 
                 {/* Body */}
-                <div className="p-8 space-y-8 bg-white">
+                <div className="p-8 space-y-8 bg-white overflow-y-auto">
 
                     {/* Provider Selection */}
                     <div className="space-y-3">
@@ -71,6 +83,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                                 <div className={`w-4 h-4 rounded-full border-2 border-black ${provider === 'openrouter' ? 'bg-black' : 'bg-transparent'}`} />
                                 <span className="text-sm font-black uppercase">OpenRouter</span>
                             </button>
+
+                            <button
+                                onClick={() => setProvider('selfhosted')}
+                                className={`p-4 border-[3px] border-black text-left flex items-center gap-3 transition-all ${provider === 'selfhosted'
+                                    ? 'bg-quat shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'
+                                    : 'bg-white hover:bg-slate-50'
+                                    }`}
+                            >
+                                <div className={`w-4 h-4 rounded-full border-2 border-black ${provider === 'selfhosted' ? 'bg-black' : 'bg-transparent'}`} />
+                                <span className="text-sm font-black uppercase">Self-Hosted</span>
+                            </button>
                         </div>
                     </div>
 
@@ -89,6 +112,50 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                             />
                             <p className="text-[10px] font-bold text-black opacity-60">Switching providers generally requires refreshing to ensure the correct model is loaded, but updating the key works instantly.</p>
                         </div>
+                    ) : provider === 'selfhosted' ? (
+                        <div className="space-y-3">
+                            <label className="text-xs font-black text-black uppercase tracking-widest block flex items-center gap-2">
+                                <Server className="w-4 h-4" /> Server URL
+                            </label>
+                            <input
+                                type="text"
+                                value={selfHostedUrl}
+                                onChange={(e) => setSelfHostedUrl(e.target.value)}
+                                placeholder="http://localhost:11434/v1"
+                                className="w-full p-4 text-sm font-bold bg-white border-[3px] border-black outline-none focus:bg-secondary transition-colors placeholder:text-black/30 neo-brutalism-input"
+                            />
+                            <label className="text-xs font-black text-black uppercase tracking-widest block flex items-center gap-2">
+                                <Key className="w-4 h-4" /> API Key (Optional)
+                            </label>
+                            <input
+                                type="password"
+                                value={selfHostedKey}
+                                onChange={(e) => setSelfHostedKey(e.target.value)}
+                                placeholder="Bearer token..."
+                                className="w-full p-4 text-sm font-bold bg-white border-[3px] border-black outline-none focus:bg-secondary transition-colors placeholder:text-black/30 neo-brutalism-input"
+                            />
+                            <label className="text-xs font-black text-black uppercase tracking-widest block flex items-center gap-2">
+                                <Settings2 className="w-4 h-4" /> Model
+                            </label>
+                            {selfHostedModels.length > 0 ? (
+                                <select
+                                    value={selfHostedModel}
+                                    onChange={(e) => setSelfHostedModel(e.target.value)}
+                                    className="w-full p-4 text-sm font-bold bg-white border-[3px] border-black outline-none focus:bg-secondary transition-colors neo-brutalism-input"
+                                >
+                                    {!selfHostedModels.includes(selfHostedModel) && <option value={selfHostedModel}>{selfHostedModel || '-'}</option>}
+                                    {selfHostedModels.map(m => <option key={m} value={m}>{m}</option>)}
+                                </select>
+                            ) : (
+                                <input
+                                    type="text"
+                                    value={selfHostedModel}
+                                    onChange={(e) => setSelfHostedModel(e.target.value)}
+                                    placeholder="llama3.1:8b"
+                                    className="w-full p-4 text-sm font-bold bg-white border-[3px] border-black outline-none focus:bg-secondary transition-colors placeholder:text-black/30 neo-brutalism-input"
+                                />
+                            )}
+                        </div>
                     ) : (
                         <div className="space-y-3">
                             <label className="text-xs font-black text-black uppercase tracking-widest block flex items-center gap-2">
@@ -104,6 +171,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                         </div>
                     )}
 
+                    {/* Microphone: applies immediately, so it can be switched mid-interview */}
+                    <div className="space-y-3">
+                        <label className="text-xs font-black text-black uppercase tracking-widest block flex items-center gap-2">
+                            <Mic className="w-4 h-4" /> Microphone
+                        </label>
+                        <MicCheck />
+                    </div>
+
                 </div>
 
                 {/* Footer */}
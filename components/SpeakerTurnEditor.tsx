@@ -0,0 +1,46 @@
+import React from 'react';
+import { TranscriptSpeaker, TranscriptTurn } from '../types';
+
+interface SpeakerTurnEditorProps {
+  turns: TranscriptTurn[];
+  onChangeSpeaker: (turnId: string, speaker: TranscriptSpeaker) => void;
+}
+
+const SPEAKER_OPTIONS: { value: TranscriptSpeaker; label: string }[] = [
+  { value: 'candidate', label: 'Candidate' },
+  { value: 'interviewer', label: 'Interviewer' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+const SPEAKER_STYLES: Record<TranscriptSpeaker, string> = {
+  candidate: 'bg-secondary',
+  interviewer: 'bg-quat',
+  unknown: 'bg-tertiary',
+};
+
+/**
+ * Turn-by-turn view of a transcript for fixing speaker labels before analysis.
+ * Only candidate turns count as answers, so a mislabelled interviewer turn
+ * would otherwise be read as evidence.
+ */
+export const SpeakerTurnEditor: React.FC<SpeakerTurnEditorProps> = ({ turns, onChangeSpeaker }) => {
+  return (
+    <div className="space-y-3">
+      {turns.map(turn => (
+        <div key={turn.id} className="flex items-start gap-3">
+          <select
+            value={turn.speaker}
+            onChange={(e) => onChangeSpeaker(turn.id, e.target.value as TranscriptSpeaker)}
+            className={`shrink-0 w-28 border-2 border-black px-1 py-0.5 text-[10px] font-black uppercase tracking-wider focus:outline-none ${SPEAKER_STYLES[turn.speaker]}`}
+            title={turn.source === 'batch' || turn.source === 'import' ? 'Speaker detected from the recording' : undefined}
+          >
+            {SPEAKER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <p className="flex-1 min-w-0">{turn.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,24 +1,61 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useInterview } from '../context/InterviewContext';
-import { analyzeHolisticSTAR } from '../services/geminiService';
+import { analyzeHolisticSTAR, HolisticProgress, HolisticStage } from '../services/geminiService';
+import { getProviderCapabilities, isAbortError, RetryInfo } from '../services/providers';
 import { Button } from './Button';
 import { SettingsModal } from './SettingsModal';
-import { Settings2, Download, AlertCircle, ScrollText, UserCircle, FileAudio, FileText } from 'lucide-react';
+import { CitedTranscript } from './CitedTranscript';
+import { CitationList } from './CitationList';
+import { ConsensusPanel } from './ConsensusPanel';
+import { ConsensusModelsEditor } from './ConsensusModelsEditor';
+import { RationaleCard } from './RationaleCard';
+import { RecordingPlayer, SeekRequest } from './RecordingPlayer';
+import { Settings2, Download, AlertCircle, ScrollText, UserCircle, FileAudio, FileText, XCircle, Coins, Scale, Loader2, CheckCircle2 } from 'lucide-react';
 import { generatePDF } from '../utils/exportUtils';
+import { describePromptVersion } from '../services/promptTemplates';
+import { getSessionUsage, subscribeUsage, summarizeUsage, formatCost, formatTokens } from '../services/usageLedger';
 import { STARResult } from '../types';
+import { verifyQuotes, findUnsupportedFields, highlightsForTranscript } from '../utils/citations';
+import { runConsensusAnalysis, describeConsensusModel, ConsensusModelStatus } from '../services/consensusService';
+import { languageLabel } from '../utils/languages';
+import { audioPositionAt, formatTurns, hasOriginalText, hasTranscript, spokenLanguage, transcriptText } from '../utils/transcriptTurns';
+
+const HOLISTIC_STAGES: { stage: HolisticStage; label: string }[] = [
+  { stage: 'extract', label: 'Extracting evidence (transcript chunks)' },
+  { stage: 'reduce', label: 'Rating parameters' },
+];
 
 export const SummaryScreen: React.FC = () => {
   const { rubric, settings, results, updateResult, resetInterview, sessionId } = useInterview();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+  const [progress, setProgress] = useState<Partial<Record<HolisticStage, HolisticProgress>>>({}); // Latest progress per pipeline stage
+  const requestRef = useRef<AbortController | null>(null);
+  const [activeCitation, setActiveCitation] = useState<string | null>(null); // Citation key highlighted in the transcript
+  const [isRunningConsensus, setIsRunningConsensus] = useState(false);
+  const [modelStatuses, setModelStatuses] = useState<Record<number, { status: ConsensusModelStatus; error?: string }>>({});
+  const [showConsensusModels, setShowConsensusModels] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false); // Transcripts in the spoken language instead of English
+  const hasOriginals = rubric.some(item => hasOriginalText(results[item.id]?.turns));
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+
+  // Plays the recording behind a point in a parameter's transcript, if it has one
+  const seekTranscript = (rubricItemId: string, offset: number) => {
+    const position = audioPositionAt(results[rubricItemId]?.turns || [], offset);
+    if (position) setSeekRequest({ ...position, id: Date.now() });
+  };
+  const consensusModels = (settings.consensusModels || []).filter(m => m.modelName);
+  const reviewCount = rubric.filter(item => results[item.id]?.consensus?.needsReview).length;
+  const canAnalyze = getProviderCapabilities(settings.provider).textAnalysis;
 
   // Auto-generate master transcript by concatenating all parameter transcripts
   const [masterTranscript, setMasterTranscript] = useState<string>(() => {
     return rubric
       .map(item => {
-        const t = results[item.id]?.transcript;
+        const t = transcriptText(results[item.id]);
         return t ? `--- Question: ${item.parameter} ---\n${t}` : null;
       })
       .filter(Boolean)
@@ -29,7 +66,7 @@ export const SummaryScreen: React.FC = () => {
   useEffect(() => {
     const concatenated = rubric
       .map(item => {
-        const t = results[item.id]?.transcript;
+        const t = transcriptText(results[item.id]);
         return t ? `--- Question: ${item.parameter} ---\n${t}` : null;
       })
       .filter(Boolean)
@@ -37,34 +74,106 @@ export const SummaryScreen: React.FC = () => {
     setMasterTranscript(concatenated);
   }, [results, rubric]);
 
+  const [sessionUsage, setSessionUsage] = useState(() => getSessionUsage(sessionId));
+  useEffect(() => {
+    const refresh = () => setSessionUsage(getSessionUsage(sessionId));
+    refresh();
+    return subscribeUsage(refresh);
+  }, [sessionId]);
+  const usage = summarizeUsage(sessionUsage, settings.modelPrices);
+
+  // Abort the holistic request if the screen is left mid-analysis
+  useEffect(() => () => requestRef.current?.abort(), []);
+
   const handleHolisticAnalysis = async () => {
     setIsAnalyzing(true);
     setError(null);
+    setRetryInfo(null);
+    setProgress({});
+    const controller = new AbortController();
+    requestRef.current = controller;
+    let chunked = false; // Set once the long-transcript pipeline reports its extract stage
     try {
       if (!masterTranscript) {
         throw new Error("Please generate a master transcript first.");
       }
-      const newResults = await analyzeHolisticSTAR(settings, masterTranscript, rubric);
+      const newResults = await analyzeHolisticSTAR(settings, masterTranscript, rubric, {
+        signal: controller.signal,
+        onRetry: setRetryInfo,
+        onProgress: (update) => {
+          if (update.stage === 'extract') chunked = true;
+          setProgress(prev => ({ ...prev, [update.stage]: update }));
+        }
+      });
 
       // Batch update results
+      const promptVersion = describePromptVersion(settings, chunked ? 'holisticChunked' : 'holistic');
       Object.entries(newResults).forEach(([id, result]) => {
-        // @ts-ignore - Result from holistic analysis matches the shape we need
+        // Quotes may come from any parameter's answer, so all transcripts are searched
+        const otherTranscripts = rubric
+          .filter(item => item.id !== id && hasTranscript(results[item.id]))
+          .map(item => ({ rubricItemId: item.id, transcript: transcriptText(results[item.id]) }));
         updateResult(id, {
           starEvidence: result.starEvidence,
           rating: result.rating,
-          isEdited: true
+          citations: verifyQuotes(result.quotes, transcriptText(results[id]), otherTranscripts),
+          rationale: result.rationale,
+          confidence: result.confidence,
+          insufficientEvidence: result.insufficientEvidence,
+          isEdited: true,
+          promptVersion
         });
       });
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Holistic Analysis Failed:", err);
       setError(err.message || "Failed to complete holistic analysis.");
     } finally {
+      if (requestRef.current === controller) requestRef.current = null;
       setIsAnalyzing(false);
+      setRetryInfo(null);
     }
   };
 
+  const handleCancelAnalysis = () => {
+    requestRef.current?.abort();
+  };
+
+  const handleConsensus = async () => {
+    setIsRunningConsensus(true);
+    setError(null);
+    setModelStatuses({});
+    const controller = new AbortController();
+    requestRef.current = controller;
+    try {
+      if (!masterTranscript) {
+        throw new Error("Please generate a master transcript first.");
+      }
+      const consensus = await runConsensusAnalysis(settings, masterTranscript, rubric, consensusModels, {
+        signal: controller.signal,
+        onModelStatus: (index, status, error) => setModelStatuses(prev => ({ ...prev, [index]: { status, error } }))
+      });
+      // Suggestions are only stored; ratings change when the interviewer applies them
+      Object.entries(consensus).forEach(([id, result]) => updateResult(id, { consensus: result }));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Consensus Analysis Failed:", err);
+      setError(err.message || "Failed to complete consensus analysis.");
+    } finally {
+      if (requestRef.current === controller) requestRef.current = null;
+      setIsRunningConsensus(false);
+    }
+  };
+
+  const handleApplyAgreed = () => {
+    rubric.forEach(item => {
+      const consensus = results[item.id]?.consensus;
+      if (consensus && !consensus.needsReview) updateResult(item.id, { rating: consensus.suggestedRating, isEdited: true });
+    });
+  };
+
   const handleDownloadReport = () => {
-    generatePDF(settings, rubric, results);
+    generatePDF(settings, rubric, results, usage);
   };
 
   return (
@@ -109,15 +218,48 @@ export const SummaryScreen: React.FC = () => {
               <p className="text-sm font-bold text-black mb-6 leading-relaxed">
                 Have the AI read the full transcript to verify all STAR evidence and assign preliminary scores.
               </p>
+              {!canAnalyze && (
+                <p className="text-[10px] font-black uppercase text-black bg-tertiary border-2 border-black px-2 py-1 mb-4 w-fit">
+                  The selected provider does not support analysis
+                </p>
+              )}
             </div>
             <Button
               onClick={handleHolisticAnalysis}
-              disabled={isAnalyzing || !masterTranscript}
+              disabled={isAnalyzing || isRunningConsensus || !masterTranscript || !canAnalyze}
               className="w-full bg-black text-white hover:bg-white hover:text-black justify-between group"
             >
-              {isAnalyzing ? "Analyzing..." : "Run AI Analysis"}
+              {isAnalyzing
+                ? (retryInfo
+                  ? `Retrying (${retryInfo.attempt}/${retryInfo.maxAttempts})...`
+                  : "Analyzing...")
+                : "Run AI Analysis"}
               {isAnalyzing ? <AlertCircle className="w-5 h-5 animate-spin" /> : <AlertCircle className="w-5 h-5 group-hover:scale-110 transition-transform" />}
             </Button>
+            {isAnalyzing && (progress.extract || progress.reduce) && (
+              <div className="mt-3 space-y-2 bg-white border-2 border-black p-3">
+                {HOLISTIC_STAGES.filter(({ stage }) => stage === 'reduce' || progress.extract).map(({ stage, label }, index) => {
+                  const current = progress[stage];
+                  const percent = current?.total ? Math.round((current.completed / current.total) * 100) : 0;
+                  return (
+                    <div key={stage} className="space-y-1">
+                      <div className="flex justify-between text-[10px] font-black uppercase tracking-wider text-black">
+                        <span>{progress.extract ? `${index + 1}. ` : ''}{label}</span>
+                        <span className="tabular-nums">{current ? `${current.completed}/${current.total}` : 'Waiting'}</span>
+                      </div>
+                      <div className="h-2 border-2 border-black bg-slate-50">
+                        <div className="h-full bg-quat transition-all" style={{ width: `${percent}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {isAnalyzing && (
+              <Button variant="outline" size="sm" onClick={handleCancelAnalysis} className="w-full mt-3 bg-tertiary hover:bg-tertiary">
+                <XCircle className="w-4 h-4 mr-2" /> Cancel
+              </Button>
+            )}
           </div>
 
           <div className="bg-quat border-[4px] border-black p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] flex flex-col justify-between">
@@ -135,6 +277,137 @@ export const SummaryScreen: React.FC = () => {
               <Download className="w-5 h-5 group-hover:translate-y-1 transition-transform" />
             </Button>
           </div>
+
+          {/* Consensus Rating */}
+          <div className="md:col-span-2 bg-white border-[4px] border-black p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h3 className="text-xl font-black text-black uppercase mb-2 flex items-center gap-2">
+                  <Scale className="w-5 h-5" /> Consensus Rating
+                </h3>
+                <p className="text-sm font-bold text-black leading-relaxed max-w-2xl">
+                  Rate the interview with several models, compare their ratings side by side and take the median. Parameters where the models disagree are flagged for your review.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowConsensusModels(!showConsensusModels)} className="bg-white">
+                <Settings2 className="w-4 h-4 mr-2" /> {showConsensusModels ? 'Done' : 'Models'}
+              </Button>
+            </div>
+
+            {showConsensusModels ? (
+              <ConsensusModelsEditor />
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {consensusModels.length === 0 && (
+                  <p className="text-xs font-bold text-black opacity-60">No consensus models configured.</p>
+                )}
+                {consensusModels.map((model, index) => {
+                  const status = modelStatuses[index];
+                  return (
+                    <span
+                      key={index}
+                      title={status?.error}
+                      className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-wider border-2 border-black px-2 py-1 ${status?.status === 'failed' ? 'bg-tertiary' : status?.status === 'done' ? 'bg-secondary' : 'bg-white'}`}
+                    >
+                      {status?.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {status?.status === 'done' && <CheckCircle2 className="w-3 h-3" />}
+                      {status?.status === 'failed' && <XCircle className="w-3 h-3" />}
+                      {describeConsensusModel(model)}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                onClick={handleConsensus}
+                disabled={isRunningConsensus || isAnalyzing || !masterTranscript || consensusModels.length < 2}
+                className="bg-black text-white hover:bg-white hover:text-black"
+                title={consensusModels.length < 2 ? 'Add at least two models' : undefined}
+              >
+                {isRunningConsensus ? 'Comparing Models...' : `Run Consensus (${consensusModels.length} models)`}
+              </Button>
+              {isRunningConsensus && (
+                <Button variant="outline" size="sm" onClick={handleCancelAnalysis} className="bg-tertiary hover:bg-tertiary">
+                  <XCircle className="w-4 h-4 mr-2" /> Cancel
+                </Button>
+              )}
+              {rubric.some(item => results[item.id]?.consensus) && !isRunningConsensus && (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleApplyAgreed} className="bg-white">
+                    <CheckCircle2 className="w-4 h-4 mr-2" /> Apply Agreed Ratings
+                  </Button>
+                  {reviewCount > 0 && (
+                    <span className="text-[10px] font-black uppercase bg-tertiary border-2 border-black px-2 py-1">
+                      {reviewCount} parameter{reviewCount === 1 ? '' : 's'} need review
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Usage & Cost */}
+        <div className="bg-white border-[4px] border-black shadow-[10px_10px_0px_0px_rgba(0,0,0,1)] overflow-hidden">
+          <div className="px-10 py-6 border-b-[4px] border-black flex items-center justify-between bg-white">
+            <div className="flex items-center gap-3">
+              <Coins className="w-6 h-6 text-black" />
+              <h2 className="text-xl font-black text-black uppercase tracking-tight">AI Usage & Cost</h2>
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-black text-black tabular-nums">{formatCost(usage.cost)}</p>
+              <p className="text-[10px] font-black uppercase tracking-widest text-black opacity-60">
+                {usage.calls} calls • estimated
+              </p>
+            </div>
+          </div>
+
+          {usage.calls === 0 ? (
+            <div className="p-10 text-center opacity-50">
+              <p className="text-sm font-black uppercase text-black">No AI usage recorded for this session.</p>
+            </div>
+          ) : (
+            <div className="p-10 grid md:grid-cols-2 gap-8">
+              {[
+                {
+                  title: 'By Parameter',
+                  rows: Object.entries(usage.byParameter).map(([id, totals]) => ({
+                    label: id ? (rubric.find(r => r.id === id)?.parameter || id) : 'Whole session',
+                    totals
+                  }))
+                },
+                {
+                  title: 'By Model',
+                  rows: Object.entries(usage.byModel).map(([model, totals]) => ({ label: model, totals }))
+                }
+              ].map(table => (
+                <div key={table.title} className="space-y-3">
+                  <h4 className="text-[11px] font-black text-black uppercase tracking-widest">{table.title}</h4>
+                  <div className="border-[3px] border-black divide-y-2 divide-black">
+                    {table.rows.map(({ label, totals }) => (
+                      <div key={label} className="flex items-center gap-3 px-4 py-2 text-xs font-bold text-black">
+                        <span className="flex-1 truncate uppercase font-black">{label}</span>
+                        <span className="opacity-60 tabular-nums">
+                          {formatTokens(totals.inputTokens + totals.outputTokens)} tok
+                          {totals.audioSeconds > 0 && ` • ${Math.round(totals.audioSeconds)}s audio`}
+                        </span>
+                        <span className="w-20 text-right font-black tabular-nums">
+                          {formatCost(totals.cost)}{totals.unpricedCalls > 0 && '*'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {usage.unpricedCalls > 0 && (
+                <p className="md:col-span-2 text-[10px] font-black uppercase text-black opacity-60">
+                  * Includes {usage.unpricedCalls} calls to models without a price. Set prices in Settings → Usage & Pricing.
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Master Transcript Section */}
@@ -144,8 +417,26 @@ export const SummaryScreen: React.FC = () => {
               <FileAudio className="w-6 h-6 text-black" />
               <h2 className="text-xl font-black text-black uppercase tracking-tight">Full Session Transcript</h2>
             </div>
-            <div className="text-[10px] px-3 py-1 bg-black text-white border-2 border-white font-black uppercase tracking-widest">
-              AUTO-GENERATED
+            <div className="flex items-center gap-3">
+              {hasOriginals && (
+                <div className="flex border-2 border-black">
+                  <button
+                    onClick={() => setShowOriginal(false)}
+                    className={`px-3 py-1 text-[10px] font-black uppercase tracking-widest ${!showOriginal ? 'bg-black text-white' : 'bg-white text-black'}`}
+                  >
+                    English
+                  </button>
+                  <button
+                    onClick={() => setShowOriginal(true)}
+                    className={`px-3 py-1 text-[10px] font-black uppercase tracking-widest border-l-2 border-black ${showOriginal ? 'bg-black text-white' : 'bg-white text-black'}`}
+                  >
+                    As Spoken
+                  </button>
+                </div>
+              )}
+              <div className="text-[10px] px-3 py-1 bg-black text-white border-2 border-white font-black uppercase tracking-widest">
+                AUTO-GENERATED
+              </div>
             </div>
           </div>
 
@@ -156,10 +447,35 @@ export const SummaryScreen: React.FC = () => {
             </div>
           )}
 
-          <div className="p-10">
+          <div className="p-10 space-y-4">
+            <RecordingPlayer
+              sessionId={sessionId}
+              seekRequest={seekRequest}
+              parameterLabel={(id) => rubric.find(item => item.id === id)?.parameter || id}
+            />
             {masterTranscript ? (
               <div className="bg-slate-50 border-[3px] border-black p-6 font-mono text-sm leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto">
-                {masterTranscript}
+                {/* Same text as the master transcript, rendered per parameter so citations can be highlighted */}
+                {rubric.filter(item => hasTranscript(results[item.id])).map((item, i) => (
+                  <React.Fragment key={item.id}>
+                    {i > 0 && '\n\n'}
+                    {`--- Question: ${item.parameter} ---\n`}
+                    {showOriginal && hasOriginalText(results[item.id].turns) ? (
+                      <>
+                        {spokenLanguage(results[item.id].turns) && `[${languageLabel(spokenLanguage(results[item.id].turns))}]\n`}
+                        {formatTurns(results[item.id].turns, true)}
+                      </>
+                    ) : (
+                      <CitedTranscript
+                        transcript={transcriptText(results[item.id])}
+                        highlights={highlightsForTranscript(results, item.id)}
+                        activeKey={activeCitation}
+                        onSelect={setActiveCitation}
+                        onSeek={(offset) => seekTranscript(item.id, offset)}
+                      />
+                    )}
+                  </React.Fragment>
+                ))}
               </div>
             ) : (
               <div className="flex flex-col items-center justify-center py-12 text-center opacity-50">
@@ -178,6 +494,7 @@ export const SummaryScreen: React.FC = () => {
           {rubric.map((item) => {
             const result = results[item.id];
             const star = result?.starEvidence;
+            const unsupportedFields = findUnsupportedFields(star, result?.citations);
 
             return (
               <div key={item.id} className="bg-white border-[4px] border-black shadow-[10px_10px_0px_0px_rgba(0,0,0,1)] overflow-hidden">
@@ -185,6 +502,11 @@ export const SummaryScreen: React.FC = () => {
                   <div>
                     <span className="text-[10px] font-black text-black uppercase tracking-widest opacity-60">{item.competency}</span>
                     <h3 className="text-2xl font-black text-black uppercase tracking-tight">{item.parameter}</h3>
+                    {result?.promptVersion && (
+                      <span className="text-[9px] font-mono font-bold text-black opacity-60" title="Prompt templates behind the latest AI update">
+                        Prompt: {result.promptVersion}
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-4">
                     <label className="text-xs font-black text-black uppercase tracking-widest">Score</label>
@@ -203,6 +525,14 @@ export const SummaryScreen: React.FC = () => {
                   </div>
                 </div>
 
+                {result?.consensus && (
+                  <ConsensusPanel
+                    consensus={result.consensus}
+                    currentRating={result.rating}
+                    onApply={(rating) => updateResult(item.id, { rating, isEdited: true })}
+                  />
+                )}
+
                 <div className="p-10 grid md:grid-cols-2 gap-12">
                   {/* STAR Evidence */}
                   <div className="space-y-6">
@@ -212,12 +542,12 @@ export const SummaryScreen: React.FC = () => {
                     </div>
                     {star ? (
                       <div className="grid gap-4">
-                        {[
-                          { label: 'Situation', val: star.situation, color: 'bg-white border-black' },
-                          { label: 'Task', val: star.task, color: 'bg-white border-black' },
-                          { label: 'Action', val: star.action, color: 'bg-white border-black' },
-                          { label: 'Result', val: star.result, color: 'bg-white border-black' },
-                        ].map(s => (
+                        {([
+                          { label: 'Situation', key: 'situation', val: star.situation, color: 'bg-white border-black' },
+                          { label: 'Task', key: 'task', val: star.task, color: 'bg-white border-black' },
+                          { label: 'Action', key: 'action', val: star.action, color: 'bg-white border-black' },
+                          { label: 'Result', key: 'result', val: star.result, color: 'bg-white border-black' },
+                        ] as { label: string; key: keyof STARResult; val: string; color: string }[]).map(s => (
                           <div key={s.label} className={`p-4 border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,0.15)] ${s.color}`}>
                             <span className="text-[10px] font-black uppercase text-black italic tracking-wider block mb-1">{s.label}</span>
                             <textarea
@@ -225,13 +555,25 @@ export const SummaryScreen: React.FC = () => {
                               onChange={(e) => {
                                 // Deep update starEvidence
                                 const newStar = { ...(result?.starEvidence || { situation: '', task: '', action: '', result: '' }) };
-                                // @ts-ignore
-                                newStar[s.label.toLowerCase()] = e.target.value;
+                                newStar[s.key] = e.target.value;
                                 updateResult(item.id, { starEvidence: newStar, isEdited: true });
                               }}
                               className="w-full bg-transparent text-xs text-black font-bold leading-relaxed resize-none focus:outline-none focus:ring-1 focus:ring-black/20 min-h-[3rem]"
                               placeholder={`Enter ${s.label}...`}
                             />
+                            <CitationList
+                              rubricItemId={item.id}
+                              field={s.key}
+                              citations={result?.citations?.[s.key]}
+                              unsupported={unsupportedFields.includes(s.key)}
+                              activeKey={activeCitation}
+                              onSelect={(key, citation) => {
+                                setActiveCitation(key);
+                                setShowOriginal(false);
+                                seekTranscript(citation.rubricItemId || item.id, citation.start);
+                              }}
+                              sourceLabel={(id) => rubric.find(r => r.id === id)?.parameter || id}
+                            />
                           </div>
                         ))}
                       </div>
@@ -260,6 +602,7 @@ export const SummaryScreen: React.FC = () => {
 
                   {/* Rubric anchors */}
                   <div className="space-y-6">
+                    {result && <RationaleCard result={result} />}
                     <h4 className="text-[11px] font-black text-black uppercase tracking-widest px-2 py-1 border-2 border-black bg-quat w-fit shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">Rating Reference</h4>
                     <div className="grid gap-3">
                       {[
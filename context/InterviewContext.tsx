@@ -2,6 +2,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { AppSettings, InterviewResult, RubricItem, InterviewContextType } from '../types';
 import { defaultRubric } from '../data/defaultRubric';
+import { setUsageSession } from '../services/usageLedger';
+import { migrateResult } from '../utils/transcriptTurns';
 
 const defaultSettings: AppSettings = {
   provider: 'openrouter',
@@ -48,7 +50,10 @@ export const InterviewProvider: React.FC<{ children: ReactNode }> = ({ children
   const [results, setResults] = useState<Record<string, InterviewResult>>(() => {
     try {
       const saved = localStorage.getItem('bars_results');
-      return saved ? JSON.parse(saved) : {};
+      if (!saved) return {};
+      // Results saved before transcripts were stored as turns are upgraded on load
+      const parsed: Record<string, any> = JSON.parse(saved);
+      return Object.fromEntries(Object.entries(parsed).map(([id, result]) => [id, migrateResult(result)]));
     } catch (e) {
       console.error("Failed to parse results:", e);
       return {};
@@ -101,6 +106,7 @@ export const InterviewProvider: React.FC<{ children: ReactNode }> = ({ children
 
   useEffect(() => {
     localStorage.setItem('bars_sessionId', sessionId);
+    setUsageSession(sessionId);
   }, [sessionId]);
 
   const updateSettings = (newSettings: Partial<AppSettings>) => {
@@ -111,7 +117,7 @@ export const InterviewProvider: React.FC<{ children: ReactNode }> = ({ children
     setResults(prev => ({
       ...prev,
       [id]: {
-        ...(prev[id] || { transcript: '', rating: 0, isEdited: false }),
+        ...(prev[id] || { turns: [], rating: 0, isEdited: false }),
         ...resultUpdate
       }
     }));
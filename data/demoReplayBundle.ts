@@ -0,0 +1,143 @@
+import { ReplayBundle } from '../types';
+
+/**
+ * Built-in fixtures for the offline replay provider.
+ * Covers the first default rubric items in detail; everything else uses the fallback.
+ */
+export const demoReplayBundle: ReplayBundle = {
+  name: "Demo Interview (built-in)",
+  fixtures: {
+    "rubric_1": {
+      transcripts: [
+        "Last year our largest utility client kept asking for more frequent meter reports. Nobody asked for it explicitly, but I noticed their field team was re-keying our CSVs into their own dashboard every morning.",
+        "I set up a call with their operations lead and we agreed on a direct API feed. I built the integration over two sprints with one other engineer.",
+        "After go-live they stopped the manual re-keying completely, which saved them about three hours a day, and they renewed the contract for another two years."
+      ],
+      starUpdates: [
+        {
+          situation: "Largest utility client repeatedly asked for more frequent meter reports.",
+          task: "",
+          action: "",
+          result: ""
+        },
+        {
+          situation: "Largest utility client repeatedly asked for more frequent meter reports; their field team was re-keying CSVs daily.",
+          task: "Identify and address the unstated need behind the report requests.",
+          action: "Called the client's operations lead, agreed on a direct API feed and built it over two sprints with one engineer.",
+          result: ""
+        },
+        {
+          situation: "Largest utility client repeatedly asked for more frequent meter reports; their field team was re-keying CSVs daily.",
+          task: "Identify and address the unstated need behind the report requests.",
+          action: "Called the client's operations lead, agreed on a direct API feed and built it over two sprints with one engineer.",
+          result: "Manual re-keying stopped, saving about three hours a day; the client renewed for two years."
+        }
+      ],
+      probingQuestions: [
+        [
+          "How exactly did you notice the field team was re-keying the CSVs?",
+          "What was your specific responsibility in this account?"
+        ],
+        [
+          "What measurable outcome did the API feed deliver for the client?",
+          "How did you validate that the feed solved the underlying need?"
+        ],
+        []
+      ],
+      holistic: {
+        starEvidence: {
+          situation: "Largest utility client repeatedly asked for more frequent meter reports; their field team was re-keying CSVs daily.",
+          task: "Identify and address the unstated need behind the report requests.",
+          action: "Called the client's operations lead, agreed on a direct API feed and built it over two sprints with one engineer.",
+          result: "Manual re-keying stopped, saving about three hours a day; the client renewed for two years."
+        },
+        rating: 3,
+        rationale: {
+          matchedAnchor: "Level 3: engaged the client's operations lead to understand the deeper need behind the report requests and acted on it for mutual benefit.",
+          lowerRejected: "Level 2 describes accommodating requests as made; the candidate looked past the stated request to the re-keying problem.",
+          higherRejected: "Level 4 needs stakeholder input shaping strategy or mentoring others; this is a single client fix."
+        },
+        confidence: 0.8,
+        insufficientEvidence: false
+      }
+    },
+    "rubric_2": {
+      transcripts: [
+        "When we moved to the new deployment pipeline I wrote up everything I learned in a shared doc and ran two lunch sessions for the team.",
+        "Afterwards three people started adding their own tips to the doc, and onboarding for new joiners went from two weeks to about one."
+      ],
+      starUpdates: [
+        {
+          situation: "Team moved to a new deployment pipeline.",
+          task: "",
+          action: "Wrote a shared doc of learnings and ran two lunch sessions.",
+          result: ""
+        },
+        {
+          situation: "Team moved to a new deployment pipeline.",
+          task: "Spread knowledge of the new pipeline across the team.",
+          action: "Wrote a shared doc of learnings and ran two lunch sessions.",
+          result: "Three colleagues contributed to the doc; onboarding time halved from two weeks to about one."
+        }
+      ],
+      probingQuestions: [
+        [
+          "What prompted you to document it rather than answer questions ad hoc?",
+          "How did you encourage others to contribute?"
+        ],
+        []
+      ],
+      holistic: {
+        starEvidence: {
+          situation: "Team moved to a new deployment pipeline.",
+          task: "Spread knowledge of the new pipeline across the team.",
+          action: "Wrote a shared doc of learnings and ran two lunch sessions.",
+          result: "Three colleagues contributed to the doc; onboarding time halved from two weeks to about one."
+        },
+        rating: 3,
+        rationale: {
+          matchedAnchor: "Level 3: initiated sharing of lessons learned (doc and lunch sessions) and colleagues began contributing their own tips.",
+          lowerRejected: "Level 2 is sharing only what is directly relevant when needed; the candidate proactively started the doc and sessions.",
+          higherRejected: "Level 4 needs a cross-team knowledge hub or culture change; the impact described stays within one team."
+        },
+        confidence: 0.75,
+        insufficientEvidence: false
+      }
+    }
+  },
+  fallback: {
+    transcripts: [
+      "I usually try to handle these situations by talking to everyone involved and making sure we agree on the next steps."
+    ],
+    starUpdates: [
+      {
+        situation: "",
+        task: "",
+        action: "Talks to everyone involved and agrees on next steps (general statement, no specific example).",
+        result: ""
+      }
+    ],
+    probingQuestions: [
+      [
+        "Can you describe one specific time this happened?",
+        "What was the outcome, in numbers if possible?"
+      ]
+    ],
+    holistic: {
+      starEvidence: {
+        situation: "",
+        task: "",
+        action: "Talks to everyone involved and agrees on next steps (general statement, no specific example).",
+        result: ""
+      },
+      rating: 1,
+      rationale: {
+        matchedAnchor: "Level 1 by default: only a general statement of approach, with no specific situation or outcome to compare against the anchors.",
+        lowerRejected: "",
+        higherRejected: "Level 2 needs evidence of acknowledging or accommodating specific perspectives; none was described."
+      },
+      confidence: 0.3,
+      insufficientEvidence: true
+    }
+  }
+};
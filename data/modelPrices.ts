@@ -0,0 +1,14 @@
+import { ModelPrice } from '../types';
+
+/**
+ * Published list prices (USD) used for cost estimates until overridden in Settings.
+ * Audio sent to multimodal models is billed as input tokens.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-flash": { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+  "gemini-3-flash-preview": { inputPerMillion: 0.50, outputPerMillion: 3.00 },
+  "google/gemini-2.5-flash": { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  "google/gemini-3-flash-preview": { inputPerMillion: 0.50, outputPerMillion: 3.00 },
+  "saaras:v3": { inputPerMillion: 0, outputPerMillion: 0, audioPerMinute: 0.006 }, // ~₹30 per hour
+};
@@ -0,0 +1,143 @@
+import { AppSettings, SpeakerTurn, TranscriptSegment, TranscriptionResult } from "../types";
+import { AudioInput, ProviderAdapter, RequestContext, throwIfAborted } from "./providers";
+import { joinSpeakerTurns, mergeSpeakerTurns } from "./providers/diarization";
+import { compressForUpload, EncodedAudio } from "../utils/audioEncoding";
+
+/**
+ * Size-aware audio for provider requests. Recordings are compressed before
+ * they are sent; what still exceeds a provider's audioLimits is uploaded with
+ * its file API or, for transcription, split into pieces it accepts.
+ */
+
+const SIZE_MARGIN = 0.9; // Pieces are sized below the limit, since the compressed bitrate varies
+
+/**
+ * Size of bytes once base64-encoded, as they travel inline.
+ */
+export const base64Size = (bytes: number): number => Math.ceil(bytes / 3) * 4;
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Converts a Blob to base64 (without the data URL prefix).
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+const toAudioInput = async (
+  adapter: ProviderAdapter,
+  settings: AppSettings,
+  audio: EncodedAudio,
+  upload: boolean,
+  context: RequestContext
+): Promise<AudioInput> => {
+  throwIfAborted(context.signal);
+  if (upload) return adapter.uploadAudio!(settings, audio.blob, audio.mimeType, context);
+  return { data: await blobToBase64(audio.blob), mimeType: audio.mimeType };
+};
+
+/**
+ * Compresses recordings for a request that takes them all at once
+ * (regenerate, master transcript). If they still exceed what the provider
+ * accepts inline they are uploaded; a provider without a file API refuses
+ * the request here, with the sizes, rather than failing at the server.
+ */
+export const prepareAudioInputs = async (
+  adapter: ProviderAdapter,
+  settings: AppSettings,
+  recordings: { blob: Blob; mimeType: string }[],
+  context: RequestContext
+): Promise<AudioInput[]> => {
+  const encoded: EncodedAudio[] = [];
+  for (const recording of recordings) {
+    throwIfAborted(context.signal);
+    encoded.push(...await compressForUpload(recording.blob, recording.mimeType));
+  }
+
+  const total = encoded.reduce((sum, audio) => sum + base64Size(audio.blob.size), 0);
+  const limit = adapter.audioLimits?.maxInlineBytes;
+  const upload = !!limit && total > limit;
+  if (upload && !adapter.uploadAudio) {
+    throw new Error(`The recordings come to ${formatMegabytes(total)} after compression, more than ${adapter.label} accepts in one request (${formatMegabytes(limit!)}).`);
+  }
+
+  const inputs: AudioInput[] = [];
+  for (const audio of encoded) {
+    inputs.push(await toAudioInput(adapter, settings, audio, upload, context));
+  }
+  return inputs;
+};
+
+const shiftSegments = (segments: TranscriptSegment[] | undefined, offset: number) =>
+  segments?.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
+
+const shiftTurn = (turn: SpeakerTurn, offset: number): SpeakerTurn => ({
+  ...turn,
+  start: turn.start !== undefined ? turn.start + offset : undefined,
+  end: turn.end !== undefined ? turn.end + offset : undefined,
+  segments: shiftSegments(turn.segments, offset)
+});
+
+/**
+ * Joins the transcriptions of consecutive pieces of one recording, moving
+ * their timings to the recording's clock.
+ */
+const joinTranscriptions = (parts: { offset: number; result: TranscriptionResult }[]): TranscriptionResult => {
+  const segments = parts.some(({ result }) => result.segments?.length)
+    ? parts.flatMap(({ offset, result }) => shiftSegments(result.segments, offset) || [])
+    : undefined;
+  const language = parts.find(({ result }) => result.language)?.result.language;
+
+  if (!parts.some(({ result }) => result.turns)) {
+    return { text: parts.map(({ result }) => result.text.trim()).filter(Boolean).join(' '), segments, language };
+  }
+  // A piece without speaker labels is taken as the candidate's, as for a whole recording
+  const turns = mergeSpeakerTurns(parts.flatMap(({ offset, result }) =>
+    (result.turns || [{ speaker: 'candidate' as const, text: result.text, segments: result.segments }]).map(turn => shiftTurn(turn, offset))
+  ));
+  return { text: joinSpeakerTurns(turns), segments, language, turns };
+};
+
+/**
+ * Transcribes a recording of any length. It is compressed and, where the
+ * engine limits clip length, or request size without a file API, split at
+ * pauses into pieces transcribed one after another.
+ */
+export const transcribeRecording = async (
+  adapter: ProviderAdapter,
+  settings: AppSettings,
+  recording: Blob,
+  mimeType: string,
+  context: RequestContext
+): Promise<TranscriptionResult> => {
+  const { maxInlineBytes, maxTranscribeSeconds } = adapter.audioLimits || {};
+  let pieces = await compressForUpload(recording, mimeType, maxTranscribeSeconds);
+  if (maxTranscribeSeconds && pieces.some(piece => piece.duration === undefined)) {
+    throw new Error(`${adapter.label} transcribes at most ${maxTranscribeSeconds} seconds at a time, and the recording could not be decoded to split it.`);
+  }
+
+  const largest = Math.max(...pieces.map(piece => base64Size(piece.blob.size)));
+  const tooLarge = !!maxInlineBytes && largest > maxInlineBytes;
+  if (tooLarge && !adapter.uploadAudio) {
+    // Split again into pieces short enough to fit at the compressed bitrate
+    const duration = pieces.reduce((sum, piece) => sum + (piece.duration || 0), 0);
+    const bytes = pieces.reduce((sum, piece) => sum + base64Size(piece.blob.size), 0);
+    if (!duration) {
+      throw new Error(`The recording is ${formatMegabytes(largest)}, more than ${adapter.label} accepts (${formatMegabytes(maxInlineBytes!)}), and could not be decoded to split it.`);
+    }
+    const seconds = Math.min(maxTranscribeSeconds ?? Infinity, duration * maxInlineBytes! * SIZE_MARGIN / bytes);
+    pieces = await compressForUpload(recording, mimeType, seconds);
+  }
+  const upload = tooLarge && !!adapter.uploadAudio;
+
+  const parts: { offset: number; result: TranscriptionResult }[] = [];
+  for (const piece of pieces) {
+    const result = await adapter.transcribe!(settings, await toAudioInput(adapter, settings, piece, upload, context), context);
+    parts.push({ offset: piece.offset, result });
+  }
+  return parts.length === 1 ? parts[0].result : joinTranscriptions(parts);
+};
@@ -0,0 +1,113 @@
+import { AppSettings } from "../types";
+import { ChunkBacklogEntry, deleteBacklogChunk, getBacklogChunks, saveBacklogChunk, updateBacklogChunk } from "../utils/indexedDb";
+import { transcribeLiveChunk } from "./liveTranscriptionService";
+
+/**
+ * Live chunks that could not be transcribed during a recording, typically
+ * because the connection dropped. They wait in IndexedDB and are sent again
+ * when connectivity returns; the text they yield is slotted back into the
+ * live turn they were cut from.
+ */
+
+const BACKLOG_MAX_ATTEMPTS = 2; // Retries within one drain
+const BACKLOG_MAX_DRAINS = 5; // Drains a chunk may fail before it is dropped; the whole recording stays in the audio backup
+
+export interface RecoveredChunk {
+  entry: ChunkBacklogEntry;
+  text: string;
+}
+
+const listeners = new Set<() => void>();
+let draining = false;
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Keeps a chunk for the next drain, or drops it once it has had BACKLOG_MAX_DRAINS; returns whether it was dropped
+const retryLater = async (entry: ChunkBacklogEntry): Promise<boolean> => {
+  if (entry.attempts + 1 >= BACKLOG_MAX_DRAINS) {
+    // It keeps failing; stop paying for it on every drain
+    console.warn(`[Backlog] Dropping chunk ${entry.seq} of recording ${entry.audioKey} after ${BACKLOG_MAX_DRAINS} failed drains.`);
+    await deleteBacklogChunk(entry.id!);
+    return true;
+  }
+  await updateBacklogChunk({ ...entry, attempts: entry.attempts + 1 });
+  return false;
+};
+
+/**
+ * Queues the unsent chunks of a finished live recording.
+ */
+export const queueBacklogChunks = async (
+  chunks: { seq: number; blob: Blob }[],
+  recording: { sessionId: string; parameterId: string; audioKey: number; language: string }
+) => {
+  if (!chunks.length) return;
+  const createdAt = Date.now();
+  for (const chunk of chunks) {
+    await saveBacklogChunk({ ...recording, seq: chunk.seq, blob: chunk.blob, createdAt, attempts: 0 });
+  }
+  notify();
+};
+
+export const countBacklogChunks = async (sessionId: string, parameterId?: string): Promise<number> => {
+  const entries = await getBacklogChunks(sessionId);
+  return entries.filter(entry => !parameterId || entry.parameterId === parameterId).length;
+};
+
+/**
+ * Transcribes every queued chunk of the session and hands the results to
+ * reconcile, which returns those it could not place yet. Chunks leave the
+ * queue only once reconcile has placed them; failures stay queued for the
+ * next drain, up to BACKLOG_MAX_DRAINS. Stops early when offline, and does
+ * nothing if a drain is already running.
+ */
+export const drainChunkBacklog = async (
+  settings: AppSettings,
+  sessionId: string,
+  reconcile: (recovered: RecoveredChunk[]) => Promise<RecoveredChunk[]>
+): Promise<void> => {
+  if (draining) return;
+  draining = true;
+  try {
+    const recovered: RecoveredChunk[] = [];
+    let dropped = false;
+    for (const entry of await getBacklogChunks(sessionId)) {
+      if (!navigator.onLine) break;
+      try {
+        const text = await transcribeLiveChunk({ ...settings, transcriptionLanguage: entry.language }, entry.blob, {
+          task: 'transcribe',
+          live: true,
+          rubricItemIds: [entry.parameterId],
+          maxAttempts: BACKLOG_MAX_ATTEMPTS
+        });
+        recovered.push({ entry, text });
+      } catch (err) {
+        console.error(`[Backlog] Chunk ${entry.seq} of recording ${entry.audioKey} failed again:`, err);
+        if (await retryLater(entry)) dropped = true;
+      }
+    }
+    if (!recovered.length) {
+      if (dropped) notify();
+      return;
+    }
+
+    const unplaced = new Set(await reconcile(recovered));
+    for (const chunk of recovered) {
+      if (unplaced.has(chunk)) await retryLater(chunk.entry);
+      else await deleteBacklogChunk(chunk.entry.id!);
+    }
+    notify();
+  } finally {
+    draining = false;
+  }
+};
+
+/**
+ * Calls the listener whenever chunks are queued or leave the queue. Returns an unsubscribe function.
+ */
+export const subscribeChunkBacklog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
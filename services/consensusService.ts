@@ -0,0 +1,111 @@
+import { AppSettings, ConsensusModel, ConsensusResult, ConsensusVote, RubricItem } from "../types";
+import { analyzeHolisticSTAR } from "./geminiService";
+import { findProvider, isAbortError, throwIfAborted, CallOptions } from "./providers";
+
+/**
+ * Multi-model consensus: the same holistic analysis runs on several models and
+ * their ratings are compared per parameter. The median is proposed as the
+ * rating; wide disagreement is flagged for the interviewer to decide.
+ */
+
+// Ratings this many levels apart need a human decision
+const REVIEW_SPREAD = 2;
+// Below this share of votes on the suggested rating, it needs a human decision
+const MIN_AGREEMENT = 0.5;
+
+export type ConsensusModelStatus = 'running' | 'done' | 'failed';
+
+export interface ConsensusCallOptions extends CallOptions {
+  onModelStatus?: (index: number, status: ConsensusModelStatus, error?: string) => void;
+}
+
+export const consensusModelSettings = (settings: AppSettings, model: ConsensusModel): AppSettings => ({
+  ...settings,
+  provider: model.provider,
+  modelName: model.modelName
+});
+
+export const describeConsensusModel = (model: ConsensusModel): string => {
+  return `${findProvider(model.provider)?.label || model.provider} · ${model.modelName}`;
+};
+
+/**
+ * Agreement statistics for one parameter, or null when no model rated it.
+ * With an even number of votes the median can fall between two levels; the
+ * suggestion then rounds half up, and the split is flagged for review so the
+ * interviewer picks between the two levels.
+ */
+export const summarizeVotes = (votes: ConsensusVote[]): Omit<ConsensusResult, 'votes' | 'runAt'> | null => {
+  const ratings = votes
+    .map(vote => vote.rating)
+    .filter((rating): rating is number => typeof rating === 'number')
+    .sort((a, b) => a - b);
+  if (!ratings.length) return null;
+
+  const middle = Math.floor(ratings.length / 2);
+  const median = ratings.length % 2 ? ratings[middle] : (ratings[middle - 1] + ratings[middle]) / 2;
+  const suggestedRating = Math.round(median);
+  const split = !Number.isInteger(median);
+  const spread = ratings[ratings.length - 1] - ratings[0];
+  const agreement = ratings.filter(rating => rating === suggestedRating).length / ratings.length;
+
+  return {
+    median,
+    suggestedRating,
+    spread,
+    agreement,
+    // A single surviving vote is not a consensus
+    needsReview: ratings.length < 2 || split || spread >= REVIEW_SPREAD || agreement < MIN_AGREEMENT
+  };
+};
+
+/**
+ * Runs holistic analysis on every model in parallel. A failing model becomes an
+ * error vote instead of failing the run; the run fails only if all models do.
+ */
+export const runConsensusAnalysis = async (
+  settings: AppSettings,
+  fullTranscript: string,
+  rubric: RubricItem[],
+  models: ConsensusModel[],
+  options: ConsensusCallOptions = {}
+): Promise<Record<string, ConsensusResult>> => {
+  const { onModelStatus, ...callOptions } = options;
+  if (models.length < 2) throw new Error("Consensus needs at least two models. Add them under Consensus Models.");
+
+  const runs = await Promise.all(models.map(async (model, index) => {
+    onModelStatus?.(index, 'running');
+    try {
+      const ratings = await analyzeHolisticSTAR(consensusModelSettings(settings, model), fullTranscript, rubric, callOptions);
+      onModelStatus?.(index, 'done');
+      return { model, ratings, error: undefined as string | undefined };
+    } catch (err: any) {
+      if (isAbortError(err)) throw err;
+      const error = err.message || "Analysis failed.";
+      onModelStatus?.(index, 'failed', error);
+      return { model, ratings: undefined, error };
+    }
+  }));
+  throwIfAborted(callOptions.signal);
+
+  if (runs.every(run => run.error)) {
+    throw new Error(`All consensus models failed. ${describeConsensusModel(runs[0].model)}: ${runs[0].error}`);
+  }
+
+  const runAt = Date.now();
+  const results: Record<string, ConsensusResult> = {};
+  rubric.forEach(item => {
+    const votes: ConsensusVote[] = runs.map(({ model, ratings, error }) => {
+      const rating = ratings?.[item.id];
+      return {
+        ...model,
+        rating: rating?.rating,
+        starEvidence: rating?.starEvidence,
+        error: error || (rating ? undefined : "No rating returned for this parameter.")
+      };
+    });
+    const summary = summarizeVotes(votes);
+    if (summary) results[item.id] = { votes, ...summary, runAt };
+  });
+  return results;
+};
@@ -1,17 +1,42 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { RubricItem, STARResult, AppSettings } from "../types";
+import { RubricItem, STARResult, STARQuotes, AppSettings, TranscriptionResult, HolisticRating, SpeakerTurn } from "../types";
+import { getProvider, getTranscriptionProvider, requireCapability, isAbortError, throwIfAborted, CallOptions, GenerateRequest, ProviderAdapter } from "./providers";
+import {
+  Validated, PartialAnalysis, ReportedTurn,
+  validateAnalysisResponse, validateHolisticResponse, validateHolisticRating, validateEvidenceMap, validateRegenerateResponse,
+  readPartialAnalysis, readPartialHolistic
+} from "./responseValidation";
+import { parsePartialJson } from "../utils/partialJson";
+import { itemPlaceholderValues, formatAnchors, renderTemplate, resolvePromptTemplate } from "./promptTemplates";
+import { chunkTranscript } from "../utils/transcriptChunks";
+import { languageLabel, needsTranslation } from "../utils/languages";
+import { prepareAudioInputs, transcribeRecording } from "./audioPayload";
 
-const SYSTEM_INSTRUCTION = `You are a skeptical, high-standards HR Auditor. 
-Objective: Scrutinize candidate responses for concrete behavioral evidence (STAR: Situation, Task, Action, Result).
+/**
+ * Call options for analyses that can render progressively while streaming.
+ */
+export interface StreamingCallOptions<P> extends CallOptions {
+  onPartial?: (partial: P) => void;
+}
 
-RULES:
-1. **ZERO TOLERANCE FOR HALLUCINATION**: Only usage facts explicitly present in the audio or transcript. If audio is silent or unclear, state "[unintelligible]". Do NOT invent details to fill gaps.
-2. DO NOT accept vague generalities. Mark missing STAR fields as "" if evidence is not explicit.
-3. ACCUMULATE evidence: Merge new details with previous context. 
-4. BE CRITICAL: If a candidate pivots, note it.
-5. PROBE SHARPLY: Generate 2-3 specific questions to expose gaps.
-6. Return valid JSON only.`;
+/**
+ * Call options for speech-to-text with a per-recording language.
+ */
+export interface LanguageCallOptions extends CallOptions {
+  language?: string; // Overrides settings.transcriptionLanguage for this recording; "" = auto-detect
+  diarize?: boolean; // Split the recording into interviewer and candidate turns
+}
+
+/**
+ * Adapts a partial-result listener to the provider's raw text stream.
+ */
+const toTextListener = <P>(onPartial: ((partial: P) => void) | undefined, read: (raw: any) => P) => {
+  if (!onPartial) return undefined;
+  return (text: string) => {
+    const raw = parsePartialJson(text);
+    if (raw) onPartial(read(raw));
+  };
+};
 
 /**
  * Attempts to repair common JSON truncation issues like missing closing quotes or braces.
@@ -100,96 +125,105 @@ const getRecentTranscript = (transcript: string, maxLength = 1500) => {
   return "[...] " + transcript.slice(-maxLength);
 };
 
-/**
- * Helper to get the API key for Google
- */
-const getGoogleApiKey = (settings: AppSettings): string => {
-  const key = settings.googleApiKey || (import.meta as any).env?.VITE_GEMINI_API_KEY || (import.meta as any).env?.GEMINI_API_KEY;
-  if (!key || key === 'PLACEHOLDER_API_KEY') {
-    throw new Error("Google API Key is missing. Please provide it in Settings.");
+// --- Response Schemas ---
+
+const STAR_SCHEMA = {
+  type: "object",
+  properties: {
+    situation: { type: "string" },
+    task: { type: "string" },
+    action: { type: "string" },
+    result: { type: "string" },
+  },
+  required: ["situation", "task", "action", "result"]
+};
+
+const QUOTE_LIST_SCHEMA = { type: "array", items: { type: "string" } };
+
+// Verbatim candidate quotes backing each STAR field
+const CITATIONS_SCHEMA = {
+  type: "object",
+  properties: {
+    situation: QUOTE_LIST_SCHEMA,
+    task: QUOTE_LIST_SCHEMA,
+    action: QUOTE_LIST_SCHEMA,
+    result: QUOTE_LIST_SCHEMA,
   }
-  return key;
 };
 
 /**
- * Creates a GoogleGenAI client from settings.
+ * Runs a structured request and validates the parsed JSON. If parsing or
+ * validation fails, the model gets one chance to fix its own output against
+ * the schema before the error is surfaced.
+ * With onText, the first attempt is streamed when the provider supports it.
  */
-const createGoogleClient = (settings: AppSettings): GoogleGenAI => {
-  const apiKey = getGoogleApiKey(settings);
-  return new GoogleGenAI({ apiKey });
-};
+const generateValidated = async <T>(
+  provider: ProviderAdapter,
+  settings: AppSettings,
+  request: GenerateRequest,
+  validate: (raw: any) => Validated<T>,
+  onText?: (text: string) => void
+): Promise<T> => {
+  const check = (text: string): Validated<T> => {
+    if (!text || !text.trim()) return { issues: ["The response was empty"] };
+    try {
+      return validate(parseCleanJson(text));
+    } catch (err: any) {
+      return { issues: [err.message] };
+    }
+  };
 
-// --- OpenRouter Logic ---
+  const text = onText && provider.generateStream
+    ? await provider.generateStream(settings, request, onText)
+    : await provider.generate!(settings, request);
+  const first = check(text);
+  if (!first.issues.length) return first.value;
 
-const callOpenRouter = async (
-  settings: AppSettings,
-  messages: any[],
-  schemaDescription?: string,
-  systemInstruction: string = SYSTEM_INSTRUCTION
-) => {
-  if (!settings.openRouterApiKey) throw new Error("OpenRouter API Key is missing.");
-
-  const fullMessages = [
-    { role: "system", content: systemInstruction + (schemaDescription ? `\n\nEnsure JSON matches this structure: ${schemaDescription}` : "") },
-    ...messages
-  ];
-
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${settings.openRouterApiKey}`,
-      "HTTP-Referer": window.location.origin,
-      "X-Title": "Local BARS Interviewer",
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      model: settings.modelName,
-      messages: fullMessages,
-      response_format: schemaDescription ? { type: "json_object" } : undefined
-    })
-  });
+  console.warn(`${provider.label} returned invalid JSON, requesting a repair:`, first.issues);
+  throwIfAborted(request.context?.signal);
 
-  if (!response.ok) {
-    const errText = await response.text();
-    console.error("OpenRouter Error Body:", errText);
-    throw new Error(`OpenRouter Error (${response.status}): ${errText.substring(0, 200)}...`);
-  }
+  const repairText = await provider.generate!(settings, {
+    prompt: `Your previous response did not match the required JSON schema.
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error("OpenRouter returned empty content.");
+    PROBLEMS:
+    ${first.issues.map(issue => `- ${issue}`).join('\n    ')}
 
-  return content;
-};
+    REQUIRED SCHEMA:
+    ${JSON.stringify(request.schema?.jsonSchema)}
 
-/**
- * Helper to ensure a value is a string, preventing [object Object] in UI.
- */
-const ensureString = (val: any): string => {
-  if (typeof val === 'string') return val;
-  if (val && typeof val === 'object') {
-    // Try common keys if the model nested it, or stringify
-    return val.text || val.content || val.transcript || val.response || JSON.stringify(val);
-  }
-  return String(val || "");
+    PREVIOUS RESPONSE:
+    ${text || '(empty)'}
+
+    Return ONLY the corrected JSON. Keep the original content; change only what the schema requires.`,
+    systemInstruction: "You repair JSON so that it matches a given schema. Return valid JSON only.",
+    temperature: 0,
+    schema: request.schema,
+    context: request.context
+  });
+
+  const second = check(repairText);
+  if (!second.issues.length) return second.value;
+
+  console.error(`${provider.label} JSON repair failed:`, second.issues, "Text:", repairText);
+  throw new Error(`The AI response did not match the expected format (${second.issues.slice(0, 3).join('; ')}). Please try again.`);
 };
 
 // --- Main Service Functions ---
 
 export const analyzeAndProbe = async (
   settings: AppSettings,
-  audioBase64: string,
-  mimeType: string,
+  audio: Blob,
   rubricItem: RubricItem,
   currentTranscript: string,
-  previousSTAR?: STARResult
+  previousSTAR?: STARResult,
+  options: CallOptions = {}
 ): Promise<{
   newTranscriptSnippet: string;
   starUpdate: STARResult;
   probingQuestions: string[];
 }> => {
   // Step 1: Transcribe the audio completely
-  const newTranscriptSnippet = await transcribeAudio(settings, audioBase64, mimeType);
+  const newTranscriptSnippet = await transcribeAudio(settings, audio, rubricItem.id, options);
 
   // Step 2: Analyze the transcript for STAR evidence and generate probing questions
   const { starUpdate, probingQuestions } = await analyzeTranscript(
@@ -198,7 +232,8 @@ export const analyzeAndProbe = async (
     rubricItem,
     currentTranscript,
     previousSTAR,
-    true // Generate probing questions
+    true, // Generate probing questions
+    options
   );
 
   return {
@@ -208,90 +243,129 @@ export const analyzeAndProbe = async (
   };
 };
 
+
 export const transcribeAudio = async (
   settings: AppSettings,
-  audioBase64: string,
-  mimeType: string
+  audio: Blob,
+  rubricItemId?: string,
+  options: LanguageCallOptions = {}
 ): Promise<string> => {
-  const prompt = "Transcribe audio verbatim. Provide the complete transcript of everything spoken.";
+  const { text } = await transcribeAudioDetailed(settings, audio, rubricItemId, options);
+  return text;
+};
 
-  if (settings.provider === 'openrouter') {
-    // OpenRouter generic API
-    // We attempt to send the audio as a multimodal input (image_url hack or proper input if supported)
-    try {
-      const prompt = "Transcribe this audio verbatim. Output ONLY the raw transcript text. Do not output JSON. Do not add any preamble or postscript.";
-      const rawText = await callOpenRouter(settings, [{
-        role: "user",
-        content: [
-          {
-            type: "image_url", // Many OpenRouter models use this for multimodal inputs (images/audio)
-            image_url: { url: `data:${mimeType};base64,${audioBase64}` }
-          },
-          { type: "text", text: prompt }
-        ]
-      }], undefined, "You are a professional transcriber. Output ONLY the raw transcript text. Do not output JSON.");
-      return rawText.trim();
-    } catch (err: any) {
-      console.warn("OpenRouter Transcription failed:", err);
-      throw new Error(`OpenRouter Transcription failed. Ensure your selected model (${settings.modelName}) supports audio input. Error: ` + err.message);
-    }
+/**
+ * Transcribes with the configured speech-to-text provider, keeping segment
+ * timestamps, speaker turns and the detected language when the provider reports them.
+ * The recording is compressed, and split when it is longer or larger than the provider takes.
+ */
+export const transcribeAudioDetailed = async (
+  settings: AppSettings,
+  audio: Blob,
+  rubricItemId?: string,
+  options: LanguageCallOptions = {}
+): Promise<TranscriptionResult> => {
+  const { language, diarize, ...callOptions } = options;
+  const { adapter, settings: transcriptionSettings } = getTranscriptionProvider(
+    language === undefined ? settings : { ...settings, transcriptionLanguage: language }
+  );
+  requireCapability(adapter, 'transcription');
+
+  try {
+    return await transcribeRecording(
+      adapter,
+      transcriptionSettings,
+      audio,
+      audio.type || 'audio/webm',
+      { task: 'transcribe', rubricItemIds: rubricItemId ? [rubricItemId] : undefined, diarize, ...callOptions }
+    );
+  } catch (err: any) {
+    if (!isAbortError(err)) console.error(`${adapter.label} transcription error:`, err);
+    throw err;
   }
+};
 
-  // Sarvam Provider
-  if (settings.provider === 'sarvam') {
-    if (!settings.sarvamApiKey) throw new Error("Sarvam API Key is missing.");
+/**
+ * Translates a transcript into English. The speech-to-text engine translates
+ * when it can (Sarvam); otherwise the analysis model does, with the translate template.
+ */
+export const translateToEnglish = async (
+  settings: AppSettings,
+  text: string,
+  sourceLanguage: string,
+  rubricItemId?: string,
+  options: CallOptions = {}
+): Promise<string> => {
+  const context = { task: 'translate' as const, rubricItemIds: rubricItemId ? [rubricItemId] : undefined, ...options };
+  const { adapter, settings: transcriptionSettings } = getTranscriptionProvider(settings);
 
-    const formData = new FormData();
-    // Convert base64 back to blob for FormData
-    const byteCharacters = atob(audioBase64);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+  try {
+    if (adapter.translate && adapter.hasCredentials(transcriptionSettings)) {
+      return await adapter.translate(transcriptionSettings, text, sourceLanguage, context);
     }
-    const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: mimeType });
-
-    formData.append('file', blob, 'audio.wav');
-    formData.append('model', 'saaras:v3');
 
-    const response = await fetch('https://api.sarvam.ai/speech-to-text', {
-      method: 'POST',
-      headers: { 'api-subscription-key': settings.sarvamApiKey },
-      body: formData
+    const provider = getProvider(settings.provider);
+    requireCapability(provider, 'textAnalysis');
+    const translated = await provider.generate!(settings, {
+      prompt: renderTemplate(resolvePromptTemplate(settings, 'translate').text, {
+        language: languageLabel(sourceLanguage),
+        transcript: text
+      }),
+      systemInstruction: "You are a professional interpreter. Output only the English translation.",
+      temperature: 0.1,
+      context
     });
-
-    if (!response.ok) {
-      throw new Error(`Sarvam Transcription Failed: ${response.status} ${await response.text()}`);
-    }
-
-    const data = await response.json();
-    return data.transcript || "";
+    return translated.trim();
+  } catch (err: any) {
+    if (isAbortError(err)) throw err;
+    console.error("Translation error:", err);
+    throw new Error(`Failed to translate the ${languageLabel(sourceLanguage)} answer into English: ${err.message}`);
   }
+};
 
-  // Google Provider — using new @google/genai SDK
-  const ai = createGoogleClient(settings);
+/**
+ * A speaker turn in English, plus the words as spoken when it was translated.
+ */
+export interface AnalysisTurn extends SpeakerTurn {
+  originalText?: string;
+}
 
-  try {
-    const response = await ai.models.generateContent({
-      model: settings.modelName,
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { inlineData: { mimeType, data: audioBase64 } },
-            { text: prompt }
-          ]
-        }
-      ],
-      config: {
-        systemInstruction: "You are a professional transcriber. Output only the verbatim transcript text. Do NOT use JSON."
-      }
-    });
-    return response.text?.trim() || "";
-  } catch (err: any) {
-    console.error("Gemini transcription error:", err);
-    throw err;
+export interface AnalysisTranscription {
+  turns: AnalysisTurn[]; // Empty when nothing was said
+  language?: string;
+}
+
+/**
+ * Transcribes a recording and translates it into English when it was spoken
+ * in another language, so STAR analysis always runs on English text.
+ * With diarize, the recording comes back as interviewer and candidate turns;
+ * engines that cannot diarize return it all as one candidate turn.
+ */
+export const transcribeForAnalysis = async (
+  settings: AppSettings,
+  audio: Blob,
+  rubricItemId?: string,
+  options: LanguageCallOptions = {}
+): Promise<AnalysisTranscription> => {
+  // Translation gets the call options alone; diarize applies to transcription only
+  const { language: override, diarize, ...callOptions } = options;
+  const result = await transcribeAudioDetailed(settings, audio, rubricItemId, { ...callOptions, language: override, diarize });
+  // The chosen language wins; the detected one only fills in for auto-detect
+  const language = (override ?? settings.transcriptionLanguage) || result.language;
+
+  const spoken: SpeakerTurn[] = result.turns?.length
+    ? result.turns
+    : result.text.trim() ? [{ speaker: 'candidate', text: result.text, segments: result.segments }] : [];
+  if (!needsTranslation(language)) return { turns: spoken, language };
+
+  // Translated turn by turn so speaker boundaries survive translation
+  const turns: AnalysisTurn[] = [];
+  for (const turn of spoken) {
+    throwIfAborted(callOptions.signal);
+    const text = await translateToEnglish(settings, turn.text, language!, rubricItemId, callOptions);
+    turns.push({ ...turn, text, originalText: turn.text });
   }
+  return { turns, language };
 };
 
 /**
@@ -304,274 +378,309 @@ export const analyzeTranscript = async (
   rubricItem: RubricItem,
   currentTranscript: string,
   previousSTAR?: STARResult,
-  generateProbes: boolean = true
+  generateProbes: boolean = true,
+  options: StreamingCallOptions<PartialAnalysis> = {}
 ): Promise<{
   starUpdate: STARResult;
   probingQuestions: string[];
+  quotes: STARQuotes;
 }> => {
+  const { onPartial, ...callOptions } = options;
+  const provider = getProvider(settings.provider);
+  requireCapability(provider, 'textAnalysis');
+
   const recentTranscript = getRecentTranscript(currentTranscript);
   const previousSTARContext = previousSTAR ? JSON.stringify(previousSTAR) : "None (New)";
 
-  const promptText = `
-    Question: "${rubricItem.question}"
-    Previous STAR Context: ${previousSTARContext}
-    Recent Transcript Context: "${recentTranscript}"
-    New Transcript Snippet: "${newTranscriptSnippet}"
-    
-    TASK: 
-    1. ACCUMULATE STAR evidence for "${rubricItem.parameter}". MERGE new facts with Previous STAR Context. Do not lose old details unless contradicted.
-    ${generateProbes ? '2. Generate 2-3 SHARP, specific probing questions if STAR is incomplete or vague.' : '2. Do NOT generate probing questions (the interview for this parameter is complete).'}
-    
-    RESTRICTIONS:
-    - Evidence must be explicit.
-    - Output MUST be valid JSON.
-  `;
-
-  if (settings.provider === 'openrouter') {
-    const rawJson = await callOpenRouter(settings, [{
-      role: "user",
-      content: [{ type: "text", text: promptText }]
-    }], "Return JSON with: starUpdate (object with situation, task, action, result), probingQuestions (array of strings).");
-
-    const parsed = parseCleanJson(rawJson);
-    return {
-      starUpdate: parsed.starUpdate || { situation: '', task: '', action: '', result: '' },
-      probingQuestions: parsed.probingQuestions || []
-    };
-  }
-
-  // Sarvam Provider - Analysis Not Supported directly via this service yet
-  if (settings.provider === 'sarvam') {
-    throw new Error("Sarvam AI currently supports transcription only. Please select Google or OpenRouter for analysis capabilities.");
-  }
-
-  // Google Provider — using new @google/genai SDK
-  const ai = createGoogleClient(settings);
+  const itemValues = itemPlaceholderValues(rubricItem);
+  const systemInstruction = renderTemplate(resolvePromptTemplate(settings, 'systemInstruction', rubricItem.id).text, itemValues);
+  const promptText = renderTemplate(resolvePromptTemplate(settings, 'analyze', rubricItem.id).text, {
+    ...itemValues,
+    previousSTAR: previousSTARContext,
+    recentTranscript,
+    newSnippet: newTranscriptSnippet,
+    probeInstruction: generateProbes
+      ? '2. Generate 2-3 SHARP, specific probing questions if STAR is incomplete or vague.'
+      : '2. Do NOT generate probing questions (the interview for this parameter is complete).'
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: settings.modelName,
-      contents: promptText,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        responseSchema: {
+    const { starUpdate, probingQuestions, quotes } = await generateValidated(provider, settings, {
+      prompt: promptText,
+      systemInstruction,
+      temperature: 0.2,
+      context: { task: 'analyze', rubricItemIds: [rubricItem.id], ...callOptions },
+      schema: {
+        description: "Return JSON with: starUpdate (object with situation, task, action, result), probingQuestions (array of strings), citations (object with situation, task, action, result, each an array of verbatim quotes).",
+        jsonSchema: {
           type: "object",
           properties: {
-            starUpdate: {
-              type: "object",
-              properties: {
-                situation: { type: "string" },
-                task: { type: "string" },
-                action: { type: "string" },
-                result: { type: "string" },
-              },
-              required: ["situation", "task", "action", "result"]
-            },
+            starUpdate: STAR_SCHEMA,
             probingQuestions: {
               type: "array",
               items: { type: "string" }
-            }
+            },
+            citations: CITATIONS_SCHEMA
           },
-          required: ["starUpdate", "probingQuestions"]
+          required: ["starUpdate", "probingQuestions", "citations"]
         }
       }
-    });
+    }, validateAnalysisResponse, toTextListener(onPartial, raw => {
+      const partial = readPartialAnalysis(raw);
+      return generateProbes ? partial : { ...partial, probingQuestions: [] };
+    }));
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("AI returned an empty response.");
-    }
-
-    const parsed = parseCleanJson(text);
     return {
-      starUpdate: parsed.starUpdate || { situation: '', task: '', action: '', result: '' },
-      probingQuestions: parsed.probingQuestions || []
+      starUpdate,
+      probingQuestions: generateProbes ? probingQuestions : [],
+      quotes
     };
   } catch (err: any) {
-    console.error("Gemini analyzeTranscript Error:", err);
+    if (!isAbortError(err)) console.error(`${provider.label} analyzeTranscript Error:`, err);
     throw err;
   }
 }
 
+export type HolisticStage = 'extract' | 'reduce';
+
+export interface HolisticProgress {
+  stage: HolisticStage; // extract = reading transcript chunks, reduce = rating parameters
+  completed: number;
+  total: number;
+}
+
+export interface HolisticCallOptions extends StreamingCallOptions<Record<string, Partial<HolisticRating>>> {
+  onProgress?: (progress: HolisticProgress) => void;
+}
+
+// Transcripts longer than this are analyzed chunk by chunk (map-reduce)
+export const HOLISTIC_CHUNK_CHARS = 12000;
+
+const HOLISTIC_RATING_SCHEMA = {
+  type: "object",
+  properties: {
+    starEvidence: STAR_SCHEMA,
+    rating: { type: "number", description: "1 to 4 integer" },
+    citations: CITATIONS_SCHEMA,
+    rationale: {
+      type: "object",
+      properties: {
+        matchedAnchor: { type: "string" },
+        lowerRejected: { type: "string" },
+        higherRejected: { type: "string" }
+      },
+      required: ["matchedAnchor", "lowerRejected", "higherRejected"]
+    },
+    confidence: { type: "number", description: "0 to 1" },
+    insufficientEvidence: { type: "boolean" }
+  },
+  required: ["starEvidence", "rating", "citations", "rationale", "confidence", "insufficientEvidence"]
+};
+
+const formatParameterBlocks = (rubric: RubricItem[]) => rubric.map(r => `--- ID: ${r.id} ---
+Parameter: ${r.parameter}
+Question Asked: "${r.question}"
+Rubric Anchors:
+${formatAnchors(r)}`).join('\n\n');
+
+/**
+ * Rates every parameter against the whole interview. Transcripts that fit one
+ * call are rated in a single pass; longer ones go through a map-reduce pipeline
+ * so nothing is truncated: evidence is extracted from each chunk for all
+ * parameters, then merged into STAR and a rating per parameter.
+ */
 export const analyzeHolisticSTAR = async (
   settings: AppSettings,
   fullTranscript: string,
-  rubric: RubricItem[]
-): Promise<Record<string, { starEvidence: STARResult; rating: number }>> => {
-  const truncatedFullTranscript = getRecentTranscript(fullTranscript, 12000); // Increased context window
-
-  const promptText = `
-    You are an expert HR Auditor.
-    Objective: Review the ENTIRE interview transcript to extract holistic STAR evidence for specific competencies.
-    
-    CRITICAL INSTRUCTION: 
-    Candidates often scatter evidence across different questions. 
-    You must CROSS-REFERENCE the entire transcript. 
-    If a candidate mentions a "Conflict Resolution" example while answering a "Leadership" question, YOU MUST capture it for the "Conflict Resolution" parameter.
-
-    PARAMETERS TO ANALYZE:
-    ${rubric.map(r => `
-    --- ID: ${r.id} ---
-    Parameter: ${r.parameter}
-    Question Asked: "${r.question}"
-    Rubric Anchors:
-      1 (Poor): ${r.level1}
-      2 (Fair): ${r.level2}
-      3 (Good): ${r.level3}
-      4 (Excellent): ${r.level4}
-    `).join('\n')}
-
-    FULL TRANSCRIPT:
-    ---
-    ${truncatedFullTranscript}
-    ---
-    
-    OUTPUT FORMAT:
-    Return a JSON map where keys are the Parameter IDs.
-    Values must be objects with:
-    - starEvidence: { situation, task, action, result }
-    - rating: (1-4 integer based on anchors)
-    
-    RULES:
-    1. READ BETWEEN THE LINES. Look for consistency and depth.
-    2. If evidence is vague or generic, rate lower (1 or 2).
-    3. If evidence is concrete and specific (names, numbers, quotes), rate higher (3 or 4).
-    4. "starEvidence" fields must be strings.
-  `;
-
-  if (settings.provider === 'openrouter') {
-    const rawJson = await callOpenRouter(settings, [{
-      role: "user",
-      content: [{ type: "text", text: promptText }]
-    }], "Return JSON map: keys=IDs, values={ starEvidence: {situation, task, action, result}, rating: number }");
-    return parseCleanJson(rawJson);
-  }
+  rubric: RubricItem[],
+  options: HolisticCallOptions = {}
+): Promise<Record<string, HolisticRating>> => {
+  const provider = getProvider(settings.provider);
+  requireCapability(provider, 'textAnalysis');
+
+  const chunks = chunkTranscript(fullTranscript, HOLISTIC_CHUNK_CHARS);
 
-  // Sarvam Provider - Analysis Not Supported directly via this service yet
-  if (settings.provider === 'sarvam') {
-    throw new Error("Sarvam AI currently supports transcription only. Please select Google or OpenRouter for holistic analysis.");
+  try {
+    if (chunks.length <= 1) {
+      return await analyzeHolisticSinglePass(provider, settings, fullTranscript, rubric, options);
+    }
+    const evidence = await extractHolisticEvidence(provider, settings, chunks, rubric, options);
+    return await reduceHolisticEvidence(provider, settings, evidence, rubric, options);
+  } catch (err: any) {
+    if (!isAbortError(err)) console.error(`${provider.label} holistic analysis error:`, err);
+    throw err;
   }
+};
 
-  // Google Provider — using new @google/genai SDK
-  const ai = createGoogleClient(settings);
+const analyzeHolisticSinglePass = async (
+  provider: ProviderAdapter,
+  settings: AppSettings,
+  fullTranscript: string,
+  rubric: RubricItem[],
+  options: HolisticCallOptions
+): Promise<Record<string, HolisticRating>> => {
+  const { onPartial, onProgress, ...callOptions } = options;
+  const rubricIds = rubric.map(r => r.id);
+
+  const promptText = renderTemplate(resolvePromptTemplate(settings, 'holistic').text, {
+    parameters: formatParameterBlocks(rubric),
+    transcript: fullTranscript
+  });
 
   // Build schema dynamically
   const properties: any = {};
   rubric.forEach(item => {
-    properties[item.id] = {
-      type: "object",
-      properties: {
-        starEvidence: {
-          type: "object",
-          properties: {
-            situation: { type: "string" },
-            task: { type: "string" },
-            action: { type: "string" },
-            result: { type: "string" },
-          },
-          required: ["situation", "task", "action", "result"]
-        },
-        rating: { type: "number", description: "1 to 4 integer" }
-      },
-      required: ["starEvidence", "rating"]
-    };
+    properties[item.id] = HOLISTIC_RATING_SCHEMA;
   });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: settings.modelName,
-      contents: promptText,
-      config: {
-        systemInstruction: "Extract holistic STAR evidence and assign ratings (1-4). Return JSON map.",
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        responseSchema: {
+  onProgress?.({ stage: 'reduce', completed: 0, total: rubric.length });
+  const onText = toTextListener<Record<string, Partial<HolisticRating>>>(partial => {
+    onPartial?.(partial);
+    onProgress?.({ stage: 'reduce', completed: Object.values(partial).filter(p => p.rating).length, total: rubric.length });
+  }, raw => readPartialHolistic(raw, rubricIds));
+
+  return generateValidated(provider, settings, {
+    prompt: promptText,
+    systemInstruction: "Extract holistic STAR evidence and assign ratings (1-4). Return JSON map.",
+    temperature: 0.2,
+    context: { task: 'holistic', rubricItemIds: rubricIds, ...callOptions },
+    schema: {
+      description: "Return JSON map: keys=IDs, values={ starEvidence: {situation, task, action, result}, rating: number, citations: {situation, task, action, result} as arrays of verbatim quotes, rationale: {matchedAnchor, lowerRejected, higherRejected}, confidence: number 0-1, insufficientEvidence: boolean }",
+      jsonSchema: {
+        type: "object",
+        properties: properties,
+        required: rubricIds
+      }
+    }
+  }, raw => validateHolisticResponse(raw, rubricIds), onText);
+};
+
+/**
+ * Map stage: one call per chunk, collecting evidence for every parameter.
+ * Chunks run one after another to stay within provider rate limits.
+ */
+const extractHolisticEvidence = async (
+  provider: ProviderAdapter,
+  settings: AppSettings,
+  chunks: string[],
+  rubric: RubricItem[],
+  options: HolisticCallOptions
+): Promise<Record<string, string[][]>> => {
+  const { onPartial, onProgress, ...callOptions } = options;
+  const rubricIds = rubric.map(r => r.id);
+  const parameters = formatParameterBlocks(rubric);
+  const template = resolvePromptTemplate(settings, 'holisticExtract').text;
+
+  const properties: any = {};
+  rubricIds.forEach(id => {
+    properties[id] = { type: "array", items: { type: "string" } };
+  });
+
+  // Evidence per parameter, grouped by chunk
+  const evidence: Record<string, string[][]> = {};
+  rubricIds.forEach(id => { evidence[id] = []; });
+
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.({ stage: 'extract', completed: i, total: chunks.length });
+    const chunkEvidence = await generateValidated(provider, settings, {
+      prompt: renderTemplate(template, {
+        parameters,
+        transcript: chunks[i],
+        chunkIndex: i + 1,
+        chunkCount: chunks.length
+      }),
+      systemInstruction: "Extract behavioral evidence per competency from an interview transcript section. Return JSON map.",
+      temperature: 0.2,
+      context: { task: 'holisticExtract', rubricItemIds: rubricIds, ...callOptions },
+      schema: {
+        description: "Return JSON map: keys=IDs, values=array of evidence strings (empty array if none).",
+        jsonSchema: {
           type: "object",
-          properties: properties,
-          required: rubric.map(r => r.id)
+          properties,
+          required: rubricIds
         }
       }
-    });
+    }, raw => validateEvidenceMap(raw, rubricIds));
 
-    return parseCleanJson(response.text || '{}');
-  } catch (err: any) {
-    console.error("Gemini holistic analysis error:", err);
-    throw err;
+    rubricIds.forEach(id => evidence[id].push(chunkEvidence[id]));
   }
+  onProgress?.({ stage: 'extract', completed: chunks.length, total: chunks.length });
+
+  return evidence;
 };
 
-export const generateMasterTranscript = async (
+/**
+ * Reduce stage: one call per parameter, merging its evidence from all chunks.
+ * Parameters without any evidence are left out, as in a single-pass response.
+ */
+const reduceHolisticEvidence = async (
+  provider: ProviderAdapter,
   settings: AppSettings,
-  audioBlobs: { blob: Blob; mimeType: string }[]
-): Promise<string> => {
-  const prompt = "Please transcribe the following interview audio files verbatim. Combine them into a single chronological transcript. Label speakers as INTERVIEWER and CANDIDATE if possible, or just transcribe the dialogue directly.";
-
-  // Helper to convert blob to base64
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        resolve(result.split(',')[1]);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  };
+  evidence: Record<string, string[][]>,
+  rubric: RubricItem[],
+  options: HolisticCallOptions
+): Promise<Record<string, HolisticRating>> => {
+  const { onPartial, onProgress, ...callOptions } = options;
+  const template = resolvePromptTemplate(settings, 'holisticReduce').text;
+  const results: Record<string, HolisticRating> = {};
+
+  for (let i = 0; i < rubric.length; i++) {
+    const item = rubric[i];
+    onProgress?.({ stage: 'reduce', completed: i, total: rubric.length });
+
+    const sections = evidence[item.id]
+      .map((items, chunk) => items.length ? `Section ${chunk + 1}:\n${items.map(e => `- ${e}`).join('\n')}` : null)
+      .filter(Boolean);
+    if (sections.length === 0) continue;
+
+    results[item.id] = await generateValidated(provider, settings, {
+      prompt: renderTemplate(template, {
+        ...itemPlaceholderValues(item),
+        evidence: sections.join('\n\n')
+      }),
+      systemInstruction: "Consolidate interview evidence into STAR and assign a rating (1-4). Return JSON only.",
+      temperature: 0.2,
+      context: { task: 'holisticReduce', rubricItemIds: [item.id], ...callOptions },
+      schema: {
+        description: "Return JSON: { starEvidence: {situation, task, action, result}, rating: number, citations: {situation, task, action, result} as arrays of verbatim quotes, rationale: {matchedAnchor, lowerRejected, higherRejected}, confidence: number 0-1, insufficientEvidence: boolean }",
+        jsonSchema: HOLISTIC_RATING_SCHEMA
+      }
+    }, raw => validateHolisticRating(raw));
 
-  // Convert each blob individually to base64 and create a part for the API
-  const audioParts = await Promise.all(audioBlobs.map(async (item) => ({
-    inlineData: {
-      data: await blobToBase64(item.blob),
-      mimeType: item.mimeType
-    }
-  })));
+    onPartial?.({ ...results });
+  }
+  onProgress?.({ stage: 'reduce', completed: rubric.length, total: rubric.length });
 
-  if (settings.provider === 'openrouter') {
-    // Attempt OpenRouter Master Transcript
-    // Note: OpenRouter models vary in multi-modal support.
-    try {
-      const rawText = await callOpenRouter(settings, [{
-        role: "user",
-        content: [
-          ...audioParts.map(p => ({
-            type: "image_url",
-            image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` }
-          })),
-          { type: "text", text: prompt }
-        ]
-      }], undefined, "You are a professional transcriber. Output ONLY the raw transcript text.");
-      return rawText;
-    } catch (err: any) {
-      console.warn("OpenRouter Master Transcript failed:", err);
-      return "Master Transcript generation failed with OpenRouter. Ensure the selected model supports multi-modal input (audio/video). Error: " + err.message;
-    }
+  if (Object.keys(results).length === 0) {
+    throw new Error("No evidence for any parameter was found in the transcript.");
   }
+  return results;
+};
+
+export const generateMasterTranscript = async (
+  settings: AppSettings,
+  audioBlobs: { blob: Blob; mimeType: string }[],
+  options: CallOptions = {}
+): Promise<string> => {
+  const provider = getProvider(settings.provider);
+  requireCapability(provider, 'multiAudioInput');
+
+  const prompt = renderTemplate(resolvePromptTemplate(settings, 'masterTranscript').text, { audioCount: audioBlobs.length });
 
-  // Google Provider — using new @google/genai SDK
-  const ai = createGoogleClient(settings);
+  const context = { task: 'masterTranscript' as const, ...options };
+  const audio = await prepareAudioInputs(provider, settings, audioBlobs, context);
 
   try {
-    const response = await ai.models.generateContent({
-      model: settings.modelName,
-      contents: [
-        {
-          role: "user",
-          parts: [
-            ...audioParts,
-            { text: prompt }
-          ]
-        }
-      ],
-      config: {
-        systemInstruction: "You are a professional transcriber. Output only the verbatim transcript.",
-        temperature: 0.2
-      }
+    const text = await provider.generate!(settings, {
+      prompt,
+      systemInstruction: "You are a professional transcriber. Output only the verbatim transcript.",
+      temperature: 0.2,
+      audio,
+      context
     });
-    return response.text?.trim() || "No transcript generated.";
+    return text.trim() || "No transcript generated.";
   } catch (err: any) {
+    if (isAbortError(err)) throw err;
     console.error("Master transcript error:", err);
     throw new Error(`Failed to generate master transcript: ${err.message}`);
   }
@@ -584,110 +693,72 @@ export const generateMasterTranscript = async (
 export const regenerateQuestionAnalysis = async (
   settings: AppSettings,
   audioBlobs: { blob: Blob; mimeType: string }[],
-  rubricItem: RubricItem
+  rubricItem: RubricItem,
+  options: LanguageCallOptions = {}
 ): Promise<{
-  transcript: string;
+  turns: ReportedTurn[];
   starUpdate: STARResult;
   probingQuestions: string[];
+  quotes: STARQuotes;
 }> => {
-  // 1. Prepare all audio parts
-  const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
+  const provider = getProvider(settings.provider);
+  requireCapability(provider, 'multiAudioInput');
+  requireCapability(provider, 'textAnalysis');
+
+  const itemValues = itemPlaceholderValues(rubricItem);
+  const systemInstruction = renderTemplate(resolvePromptTemplate(settings, 'systemInstruction', rubricItem.id).text, itemValues);
+  const { language: override, ...callOptions } = options;
+  const context = { task: 'regenerate' as const, rubricItemIds: [rubricItem.id], ...callOptions };
+  // All audio recorded for the question, compressed and uploaded if too large to inline
+  const audio = await prepareAudioInputs(provider, settings, audioBlobs, context);
+
+  const language = override ?? settings.transcriptionLanguage;
+  const isTranslated = needsTranslation(language);
+  const promptText = renderTemplate(resolvePromptTemplate(settings, 'regenerate', rubricItem.id).text, {
+    ...itemValues,
+    audioCount: audioBlobs.length,
+    languageInstruction: isTranslated
+      ? `6. The candidate speaks ${languageLabel(language)}, possibly mixed with English. Write each turn's "text" as a faithful English translation and put the verbatim words, in the original language and script, in its "originalText". Take citations from the English "text".`
+      : ''
   });
 
-  const audioParts = await Promise.all(audioBlobs.map(async (item) => ({
-    inlineData: {
-      data: await blobToBase64(item.blob),
-      mimeType: item.mimeType
-    }
-  })));
-
-  const promptText = `
-    This interview response is split across ${audioBlobs.length} separate audio files.
-    They are provided in chronological order.
-    
-    YOUR TASK:
-    1. Listen to ALL audio files in the sequence. Each part contains a separate section of the conversation.
-    2. Transcribe the FULL conversation from start to finish, merging all parts into a single coherent transcript.
-    3. Extract the FINAL consolidated STAR evidence for "${rubricItem.parameter}".
-    4. Generate 2-3 specific probing questions IF the evidence is still weak.
-    
-    Output Format: JSON.
-    `;
-
-  if (settings.provider === 'openrouter') {
-    const rawJson = await callOpenRouter(settings, [{
-      role: "user",
-      content: [
-        ...audioParts.map(p => ({
-          type: "image_url",
-          image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` }
-        })),
-        { type: "text", text: promptText }
-      ]
-    }], "Return JSON with: transcript (string), starUpdate (object), probingQuestions (array).");
-
-    const parsed = parseCleanJson(rawJson);
-    return {
-      ...parsed,
-      transcript: ensureString(parsed.transcript)
-    };
-  }
-
-  // Google Provider — using new @google/genai SDK
-  const ai = createGoogleClient(settings);
-
   try {
-    const response = await ai.models.generateContent({
-      model: settings.modelName,
-      contents: [
-        {
-          role: "user",
-          parts: [
-            ...audioParts,
-            { text: promptText }
-          ]
-        }
-      ],
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        responseSchema: {
+    return await generateValidated(provider, settings, {
+      prompt: promptText,
+      systemInstruction,
+      temperature: 0.2,
+      audio,
+      context,
+      schema: {
+        description: `Return JSON with: turns (array of { speaker: "interviewer" or "candidate", text${isTranslated ? ', originalText' : ''} }), starUpdate (object), probingQuestions (array), citations (object of verbatim quote arrays per STAR field).`,
+        jsonSchema: {
           type: "object",
           properties: {
-            transcript: { type: "string" },
-            starUpdate: {
-              type: "object",
-              properties: {
-                situation: { type: "string" },
-                task: { type: "string" },
-                action: { type: "string" },
-                result: { type: "string" },
-              },
-              required: ["situation", "task", "action", "result"]
+            turns: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  speaker: { type: "string", enum: ["interviewer", "candidate"] },
+                  text: { type: "string" },
+                  ...(isTranslated ? { originalText: { type: "string" } } : {})
+                },
+                required: ["speaker", "text", ...(isTranslated ? ["originalText"] : [])]
+              }
             },
+            starUpdate: STAR_SCHEMA,
             probingQuestions: {
               type: "array",
               items: { type: "string" }
-            }
+            },
+            citations: CITATIONS_SCHEMA
           },
-          required: ["transcript", "starUpdate", "probingQuestions"]
+          required: ["turns", "starUpdate", "probingQuestions", "citations"]
         }
       }
-    });
-
-    const text = response.text;
-    const parsed = parseCleanJson(text || '');
-    return {
-      ...parsed,
-      transcript: ensureString(parsed.transcript)
-    };
+    }, validateRegenerateResponse);
   } catch (err: any) {
-    console.error("Regenerate Analysis Error:", err);
+    if (!isAbortError(err)) console.error("Regenerate Analysis Error:", err);
     throw err;
   }
 };
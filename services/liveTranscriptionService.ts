@@ -1,8 +1,11 @@
 
 export interface LiveTranscriptionCallbacks {
-    onTranscript: (text: string, isFinal: boolean) => void;
+    onTranscript: (text: string) => void; // The whole transcript so far, in chunk order
     onError: (error: Error) => void;
     onStatusChange: (status: 'connecting' | 'connected' | 'disconnected') => void;
+    onChunksChange?: (statuses: LiveChunkStatus[]) => void; // One entry per chunk, in order
+    onChunkError?: (error: Error) => void; // A chunk failed; the session keeps running
+    onInputStream?: (stream: MediaStream) => void; // The microphone stream, e.g. for a level meter
 }
 
 // Simplified interface, main definition moved above
@@ -11,20 +14,76 @@ export interface LiveTranscriptionCallbacks {
 */
 
 const SAMPLE_RATE = 16000;
-const CHUNK_DURATION_MS = 3000; // 3 seconds per chunk
+const FRAME_MS = 20; // Frame size for voice activity detection
+const LIVE_MAX_ATTEMPTS = 2; // Further retries wait for the user or the end of the session
+const OVERLAP_MS = 300; // Audio repeated after a cut mid-speech, so no word is cut in two
+
+// Posts the microphone signal to the main thread in fixed-size frames.
+// Loaded from a Blob URL so it needs no separate build entry.
+const CAPTURE_WORKLET_SOURCE = `
+class LiveCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this.frameSize = options.processorOptions.frameSize;
+        this.frame = new Float32Array(this.frameSize);
+        this.filled = 0;
+    }
+
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (!channel) return true;
+        let offset = 0;
+        while (offset < channel.length) {
+            const count = Math.min(this.frameSize - this.filled, channel.length - offset);
+            this.frame.set(channel.subarray(offset, offset + count), this.filled);
+            this.filled += count;
+            offset += count;
+            if (this.filled === this.frameSize) {
+                this.port.postMessage(this.frame, [this.frame.buffer]);
+                this.frame = new Float32Array(this.frameSize);
+                this.filled = 0;
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('live-capture', LiveCaptureProcessor);
+`;
 
 interface LiveSession {
     audioContext: AudioContext | null;
     mediaStream: MediaStream | null;
-    scriptNode: ScriptProcessorNode | null;
+    workletNode: AudioWorkletNode | null;
     sourceNode: MediaStreamAudioSourceNode | null;
     isActive: boolean;
-    accumulatedData: Float32Array[]; // Current chunk buffer
-    totalSamples: number;
-    intervalId: NodeJS.Timeout | null;
+    isPaused: boolean; // Frames are dropped until resumed; the session and its chunks carry on
+    segmenter: VoiceSegmenter; // Cuts the stream into utterances at pauses
+    chunks: LiveChunk[]; // Every chunk cut so far, numbered by position
+    inFlight: Set<Promise<void>>;
+    sendChunk: (utterance: Utterance) => void;
+    runChunk: (chunk: LiveChunk) => Promise<void>;
     // Full session storage
     fullAudioChunks: Float32Array[];
     fullTranscript: string;
+    // Aborts in-flight chunk requests when the session is replaced
+    abortController: AbortController;
+    onOnline: () => void; // Resends failed chunks when connectivity returns
+}
+
+// Chunk text for a live turn, and the chunks still to transcribe when the session ended
+export interface LiveStopResult {
+    transcript: string;
+    audioBlob: Blob;
+    chunkTexts: (string | null)[]; // One entry per chunk, in order; null where transcription failed
+    unsentChunks: { seq: number; blob: Blob }[]; // 16 kHz WAV of each failed chunk, for the offline backlog
+}
+
+// One utterance sent for transcription; kept until the session ends so it can be retried
+interface LiveChunk {
+    seq: number;
+    samples: Float32Array;
+    status: LiveChunkStatus;
+    text: string;
 }
 
 let currentSession: LiveSession | null = null;
@@ -54,56 +113,6 @@ function resample(audioBuffer: Float32Array, fromSampleRate: number, toSampleRat
     return result;
 }
 
-function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array) {
-    for (let i = 0; i < input.length; i++, offset += 2) {
-        const s = Math.max(-1, Math.min(1, input[i]));
-        // 16-bit PCM scale
-        output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-    }
-}
-
-function encodeWAV(samples: Float32Array): Blob {
-    const buffer = new ArrayBuffer(44 + samples.length * 2);
-    const view = new DataView(buffer);
-
-    /* RIFF identifier */
-    writeString(view, 0, 'RIFF');
-    /* RIFF chunk length */
-    view.setUint32(4, 36 + samples.length * 2, true);
-    /* RIFF type */
-    writeString(view, 8, 'WAVE');
-    /* format chunk identifier */
-    writeString(view, 12, 'fmt ');
-    /* format chunk length */
-    view.setUint32(16, 16, true);
-    /* sample format (raw) */
-    view.setUint16(20, 1, true);
-    /* channel count */
-    view.setUint16(22, 1, true);
-    /* sample rate */
-    view.setUint32(24, SAMPLE_RATE, true);
-    /* byte rate (sample rate * block align) */
-    view.setUint32(28, SAMPLE_RATE * 2, true);
-    /* block align (channel count * bytes per sample) */
-    view.setUint16(32, 2, true);
-    /* bits per sample */
-    view.setUint16(34, 16, true);
-    /* data chunk identifier */
-    writeString(view, 36, 'data');
-    /* data chunk length */
-    view.setUint32(40, samples.length * 2, true);
-
-    floatTo16BitPCM(view, 44, samples);
-
-    return new Blob([view], { type: 'audio/wav' });
-}
-
-function writeString(view: DataView, offset: number, string: string) {
-    for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-    }
-}
-
 function mergeBuffers(buffers: Float32Array[], length: number): Float32Array {
     const result = new Float32Array(length);
     let offset = 0;
@@ -116,174 +125,213 @@ function mergeBuffers(buffers: Float32Array[], length: number): Float32Array {
 
 // --- Main Service Logic ---
 
-import { GoogleGenAI } from "@google/genai";
+import { AppSettings } from "../types";
+import { getTranscriptionProvider, requireCapability, isAbortError, ProviderAdapter, RequestContext } from "./providers";
+import { createVoiceSegmenter, resolveLiveSegmentation, Utterance, VoiceSegmenter } from "../utils/voiceSegmenter";
+import { assembleChunks, LiveChunkStatus } from "../utils/transcriptAssembly";
+import { audioConstraints } from "../utils/audioInput";
+import { encodeWav } from "../utils/audioEncoding";
+import { blobToBase64 } from "./audioPayload";
+
+// Sends one chunk (16 kHz WAV) to the live engine; throws on failure
+async function transcribeWav(adapter: ProviderAdapter, settings: AppSettings, wavBlob: Blob, callOptions: RequestContext): Promise<string> {
+    const { text } = await adapter.transcribe!(settings, { data: await blobToBase64(wavBlob), mimeType: 'audio/wav' }, callOptions);
+    return text;
+}
+
+/**
+ * Resolves the speech-to-text engine for live chunks: the live engine chosen
+ * in Settings, or the regular speech-to-text engine.
+ */
+export function getLiveTranscriptionProvider(settings: AppSettings): { adapter: ProviderAdapter; settings: AppSettings } {
+    if (!settings.liveTranscriptionProvider) return getTranscriptionProvider(settings);
+    return getTranscriptionProvider({
+        ...settings,
+        transcriptionProvider: settings.liveTranscriptionProvider,
+        transcriptionModelName: settings.liveTranscriptionModelName
+    });
+}
+
+/**
+ * Names the engine that transcribes the live stream, e.g. "Sarvam AI · saaras:v3".
+ */
+export function describeLiveEngine(settings: AppSettings): string {
+    try {
+        const { adapter, settings: engineSettings } = getLiveTranscriptionProvider(settings);
+        return engineSettings.modelName ? `${adapter.label} · ${engineSettings.modelName}` : adapter.label;
+    } catch {
+        return 'No engine selected';
+    }
+}
+
+/**
+ * Transcribes a live chunk saved for later (see chunkBacklog) with the live engine.
+ */
+export async function transcribeLiveChunk(appSettings: AppSettings, wavBlob: Blob, callOptions: RequestContext): Promise<string> {
+    const { adapter, settings } = getLiveTranscriptionProvider(appSettings);
+    requireCapability(adapter, 'transcription');
+    const text = await transcribeWav(adapter, settings, wavBlob, callOptions);
+    return text.trim();
+}
 
 export async function startLiveTranscription(
-    apiKey: string,
-    provider: 'google' | 'openrouter' | 'sarvam',
-    modelName: string,
-    callbacks: LiveTranscriptionCallbacks
+    appSettings: AppSettings,
+    callbacks: LiveTranscriptionCallbacks,
+    rubricItemId?: string // Attributes chunk usage to the parameter being recorded
 ): Promise<void> {
     if (currentSession?.isActive) {
         await stopLiveTranscription();
     }
 
+    const { adapter, settings } = getLiveTranscriptionProvider(appSettings);
+    requireCapability(adapter, 'transcription');
+
     callbacks.onStatusChange('connecting');
 
+    // Released again if the session fails to start
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+
     try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-            audio: {
+        stream = await navigator.mediaDevices.getUserMedia({
+            audio: audioConstraints(appSettings.audioInputDeviceId, {
                 channelCount: 1,
                 sampleRate: SAMPLE_RATE,
                 echoCancellation: true,
                 noiseSuppression: true,
                 autoGainControl: true
-            }
+            })
         });
+        callbacks.onInputStream?.(stream);
 
-        // Initialize AudioContext
-        // NOTE: We continue to use ScriptProcessorNode for simplicity in this single-file service.
-        // AudioWorklet is preferred but requires a separate loader file.
-        const audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
+        audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
         await audioContext.resume();
 
+        const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+        try {
+            await audioContext.audioWorklet.addModule(workletUrl);
+        } finally {
+            URL.revokeObjectURL(workletUrl);
+        }
+
         const sourceNode = audioContext.createMediaStreamSource(stream);
-        const scriptNode = audioContext.createScriptProcessor(4096, 1, 1);
+        const workletNode = new AudioWorkletNode(audioContext, 'live-capture', {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            channelCount: 1,
+            processorOptions: { frameSize: Math.round(audioContext.sampleRate * FRAME_MS / 1000) }
+        });
+
+        const abortController = new AbortController();
+        const callOptions: RequestContext = {
+            task: 'transcribe',
+            live: true,
+            rubricItemIds: rubricItemId ? [rubricItemId] : undefined,
+            signal: abortController.signal,
+            maxAttempts: LIVE_MAX_ATTEMPTS
+        };
+
+        // Transcribes one chunk; throws so the chunk can be marked failed
+        const transcribeSamples = (samples: Float32Array): Promise<string> =>
+            transcribeWav(adapter, settings, encodeWav(samples, SAMPLE_RATE), callOptions);
+
+        const publish = () => {
+            session.fullTranscript = assembleChunks(session.chunks);
+            callbacks.onTranscript(session.fullTranscript);
+            callbacks.onChunksChange?.(session.chunks.map(chunk => chunk.status));
+        };
+
+        const runChunk = (chunk: LiveChunk): Promise<void> => {
+            if (!navigator.onLine) {
+                // No point sending while offline; the online listener resends it
+                chunk.status = 'failed';
+                publish();
+                return Promise.resolve();
+            }
+            chunk.status = 'pending';
+            publish();
+            const run = transcribeSamples(chunk.samples)
+                .then(text => {
+                    chunk.text = text.trim();
+                    chunk.status = 'done';
+                })
+                .catch(err => {
+                    chunk.status = 'failed';
+                    if (isAbortError(err)) return;
+                    console.error(`[${adapter.label}] Chunk ${chunk.seq} failed:`, err);
+                    callbacks.onChunkError?.(err);
+                })
+                .finally(() => {
+                    session.inFlight.delete(run);
+                    publish();
+                });
+            session.inFlight.add(run);
+            return run;
+        };
+
+        let previousTail = new Float32Array(0);
+        const sendChunk = (utterance: Utterance) => {
+            // After a cut mid-speech, lead in with the end of the previous chunk; repeated words are
+            // dropped on assembly. A cut at a pause splits no word, and the preroll covers the onset.
+            const samples = new Float32Array(previousTail.length + utterance.samples.length);
+            samples.set(previousTail);
+            samples.set(utterance.samples, previousTail.length);
+            previousTail = utterance.cutMidSpeech
+                ? utterance.samples.slice(Math.max(0, utterance.samples.length - SAMPLE_RATE * OVERLAP_MS / 1000))
+                : new Float32Array(0);
+
+            const chunk: LiveChunk = { seq: session.chunks.length, samples, status: 'pending', text: '' };
+            session.chunks.push(chunk);
+            runChunk(chunk);
+        };
+
 
         const session: LiveSession = {
             isActive: true,
+            isPaused: false,
             audioContext,
             mediaStream: stream,
-            scriptNode,
+            workletNode,
             sourceNode,
-            accumulatedData: [],
-            totalSamples: 0,
-            intervalId: null,
+            segmenter: createVoiceSegmenter(resolveLiveSegmentation(appSettings.liveSegmentation), SAMPLE_RATE),
+            chunks: [],
+            inFlight: new Set(),
+            sendChunk,
+            runChunk,
             fullAudioChunks: [],
-            fullTranscript: ""
+            fullTranscript: "",
+            abortController,
+            onOnline: () => {
+                if (session.isActive) session.chunks.filter(chunk => chunk.status === 'failed').forEach(runChunk);
+            }
         };
+        window.addEventListener('online', session.onOnline);
 
-        scriptNode.onaudioprocess = (e) => {
-            if (!session.isActive) return;
-            const inputData = e.inputBuffer.getChannelData(0);
-            const dataClone = new Float32Array(inputData);
+        workletNode.port.onmessage = (e: MessageEvent<Float32Array>) => {
+            if (!session.isActive || session.isPaused) return;
 
             // If sample rate doesn't match 16k, we must resample here.
             // (AudioContext constructor request might be ignored by some browsers/OS)
-            let finalData = dataClone;
-            if (audioContext.sampleRate !== SAMPLE_RATE) {
-                finalData = resample(dataClone, audioContext.sampleRate, SAMPLE_RATE);
-            }
+            const frame = audioContext.sampleRate !== SAMPLE_RATE
+                ? resample(e.data, audioContext.sampleRate, SAMPLE_RATE)
+                : e.data;
+            session.fullAudioChunks.push(frame);
 
-            session.accumulatedData.push(finalData);
-            session.totalSamples += finalData.length;
-
-            // Store for final session blob (keeping full fidelity if possible, but resampled is okay for now)
-            session.fullAudioChunks.push(finalData);
+            // Each finished utterance is transcribed as soon as it is cut
+            session.segmenter.push(frame).forEach(sendChunk);
         };
 
-        sourceNode.connect(scriptNode);
-        scriptNode.connect(audioContext.destination);
-
-        // Start processing interval
-        session.intervalId = setInterval(async () => {
-            if (!session.isActive || session.totalSamples === 0) return;
-
-            // Extract current buffer
-            const currentTotal = session.totalSamples;
-            const currentChunks = [...session.accumulatedData];
-
-            // Reset buffer immediately
-            session.accumulatedData = [];
-            session.totalSamples = 0;
-
-            const merged = mergeBuffers(currentChunks, currentTotal);
-            const wavBlob = encodeWAV(merged);
-
-            // Send to Sarvam
-            try {
-                if (provider === 'sarvam') {
-                    // SARVAM LOGIC
-                    const formData = new FormData();
-                    formData.append('file', wavBlob, 'audio.wav');
-                    formData.append('model', 'saaras:v3');
-                    // Using generic hindi/english model, user can change if needed but v3 is standard
-
-                    const response = await fetch('https://api.sarvam.ai/speech-to-text', {
-                        method: 'POST',
-                        headers: { 'api-subscription-key': apiKey },
-                        body: formData
-                    });
-
-                    if (response.ok) {
-                        const data = await response.json();
-                        if (data.transcript) {
-                            const newText = data.transcript.trim();
-                            if (newText) {
-                                // Avoid sticky spacing
-                                const separator = session.fullTranscript.length > 0 ? " " : "";
-                                session.fullTranscript += separator + newText;
-                                callbacks.onTranscript(newText + " ", true);
-                            }
-                        }
-                    } else {
-                        console.error('[Sarvam REST] Error:', response.status, await response.text());
-                    }
-
-                } else if (provider === 'google') {
-                    // GOOGLE LOGIC (Chunked)
-                    // Convert blob to base64
-                    const reader = new FileReader();
-                    reader.onloadend = async () => {
-                        const base64data = (reader.result as string).split(',')[1];
-                        const ai = new GoogleGenAI(apiKey);
-
-                        try {
-                            const response = await ai.models.generateContent({
-                                model: modelName || 'gemini-2.5-flash',
-                                contents: [{
-                                    role: "user",
-                                    parts: [
-                                        { inlineData: { mimeType: 'audio/wav', data: base64data } },
-                                        { text: "Transcribe this audio verbatim. Output only the text." }
-                                    ]
-                                }],
-                                config: { temperature: 0.1 }
-                            });
-
-                            const newText = response.text?.trim();
-                            if (newText) {
-                                const separator = session.fullTranscript.length > 0 ? " " : "";
-                                session.fullTranscript += separator + newText;
-                                callbacks.onTranscript(newText + " ", true);
-                            }
-                        } catch (gErr) {
-                            console.error('[Google Live] Error:', gErr);
-                        }
-                    };
-                    reader.readAsDataURL(wavBlob);
-
-                } else if (provider === 'openrouter') {
-                    // OPENROUTER LOGIC
-                    console.warn("OpenRouter Live Transcription is experimental.");
-                    // Attempt standard OpenAI audio transcription if endpoint supported, 
-                    // but OpenRouter usually routes chat completions.
-                    // We'll try the 'image_url' hack or similar IF the model supports it, 
-                    // but for now we'll just log that it's not fully supported.
-                    // Ideally we'd throw or stop, but let's just do nothing to prevent crash loop.
-                }
-
-            } catch (err) {
-                console.error(`[${provider}] Fetch error:`, err);
-            }
-
-        }, CHUNK_DURATION_MS);
+        sourceNode.connect(workletNode);
+        // The worklet outputs silence; connecting it keeps the graph pulling audio through it
+        workletNode.connect(audioContext.destination);
 
         currentSession = session;
         callbacks.onStatusChange('connected');
 
     } catch (err: any) {
         console.error('Failed to start live session:', err);
+        stream?.getTracks().forEach(track => track.stop());
+        await audioContext?.close().catch(() => {});
         callbacks.onStatusChange('disconnected');
         callbacks.onError(err);
         throw err;
@@ -294,41 +342,77 @@ export async function startLiveTranscription(
 /**
  * Stops the live transcription session.
  */
-export async function stopLiveTranscription(): Promise<{ transcript: string; audioBlob: Blob }> {
+export async function stopLiveTranscription(): Promise<LiveStopResult> {
     if (!currentSession) {
-        return { transcript: "", audioBlob: new Blob([], { type: 'audio/wav' }) };
+        return { transcript: "", audioBlob: new Blob([], { type: 'audio/wav' }), chunkTexts: [], unsentChunks: [] };
     }
 
     const session = currentSession;
     session.isActive = false;
-
-    if (session.intervalId) {
-        clearInterval(session.intervalId);
-    }
+    window.removeEventListener('online', session.onOnline);
 
     // Stop mic and nodes
     session.mediaStream?.getTracks().forEach(track => track.stop());
-    session.scriptNode?.disconnect();
+    session.workletNode?.port.close();
+    session.workletNode?.disconnect();
     session.sourceNode?.disconnect();
     await session.audioContext?.close();
 
+    // The last utterance has no pause after it yet; send it and wait for every chunk
+    const lastUtterance = session.segmenter.flush();
+    if (lastUtterance) session.sendChunk(lastUtterance);
+    await Promise.allSettled([...session.inFlight]);
+
+    // One more attempt for chunks that failed, so their words are not lost
+    await Promise.allSettled(session.chunks.filter(chunk => chunk.status === 'failed').map(session.runChunk));
+    session.abortController.abort();
+
     // Process full audio
     let finalBlob = new Blob([], { type: 'audio/wav' });
     if (session.fullAudioChunks.length > 0) {
         const totalLength = session.fullAudioChunks.reduce((acc, chunk) => acc + chunk.length, 0);
         const merged = mergeBuffers(session.fullAudioChunks, totalLength);
-        finalBlob = encodeWAV(merged);
+        finalBlob = encodeWav(merged, SAMPLE_RATE);
     }
 
-    const result = {
+    const result: LiveStopResult = {
         transcript: session.fullTranscript,
-        audioBlob: finalBlob
+        audioBlob: finalBlob,
+        chunkTexts: session.chunks.map(chunk => chunk.status === 'done' ? chunk.text : null),
+        unsentChunks: session.chunks
+            .filter(chunk => chunk.status === 'failed')
+            .map(chunk => ({ seq: chunk.seq, blob: encodeWav(chunk.samples, SAMPLE_RATE) }))
     };
 
     currentSession = null;
     return result;
 }
 
+/**
+ * Pauses capture without ending the session. The utterance in progress is
+ * sent now rather than being joined to whatever is said after the pause.
+ */
+export function pauseLiveTranscription(): void {
+    const session = currentSession;
+    if (!session?.isActive || session.isPaused) return;
+    session.isPaused = true;
+    const utterance = session.segmenter.flush();
+    if (utterance) session.sendChunk(utterance);
+}
+
+export function resumeLiveTranscription(): void {
+    if (currentSession?.isActive) currentSession.isPaused = false;
+}
+
+/**
+ * Sends the chunks of the active session that failed to transcribe again.
+ */
+export function retryFailedLiveChunks(): void {
+    const session = currentSession;
+    if (!session?.isActive) return;
+    session.chunks.filter(chunk => chunk.status === 'failed').forEach(session.runChunk);
+}
+
 /**
  * Check if a live session is currently active.
  */
@@ -0,0 +1,275 @@
+import { AppSettings, CustomPromptTemplate, ItemPromptTemplateId, PromptTemplateId, RubricItem } from "../types";
+
+/**
+ * Prompt templates with {{placeholder}} substitution. Defaults live here;
+ * users can override a template globally or for a single rubric item in Settings.
+ * Every resolved template carries a version tag that is stamped onto results.
+ */
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  placeholders: string[];
+  version: number; // Bump when the default text changes
+  text: string;
+}
+
+// Templates that apply to a single rubric item and so can be overridden per item
+export const ITEM_TEMPLATE_IDS: ItemPromptTemplateId[] = ['systemInstruction', 'analyze', 'regenerate'];
+
+const ITEM_PLACEHOLDERS = ['question', 'parameter', 'competency', 'anchors'];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  systemInstruction: {
+    id: 'systemInstruction',
+    label: 'Auditor Persona',
+    description: 'System instruction for live analysis and regeneration.',
+    placeholders: ITEM_PLACEHOLDERS,
+    version: 1,
+    text: `You are a skeptical, high-standards HR Auditor.
+Objective: Scrutinize candidate responses for concrete behavioral evidence (STAR: Situation, Task, Action, Result).
+
+RULES:
+1. **ZERO TOLERANCE FOR HALLUCINATION**: Only usage facts explicitly present in the audio or transcript. If audio is silent or unclear, state "[unintelligible]". Do NOT invent details to fill gaps.
+2. DO NOT accept vague generalities. Mark missing STAR fields as "" if evidence is not explicit.
+3. ACCUMULATE evidence: Merge new details with previous context.
+4. BE CRITICAL: If a candidate pivots, note it.
+5. PROBE SHARPLY: Generate 2-3 specific questions to expose gaps.
+6. Return valid JSON only.`
+  },
+  analyze: {
+    id: 'analyze',
+    label: 'Analyze & Probe',
+    description: 'STAR extraction and probing questions after each answer.',
+    placeholders: [...ITEM_PLACEHOLDERS, 'previousSTAR', 'recentTranscript', 'newSnippet', 'probeInstruction'],
+    version: 2,
+    text: `Question: "{{question}}"
+Previous STAR Context: {{previousSTAR}}
+Recent Transcript Context: "{{recentTranscript}}"
+New Transcript Snippet: "{{newSnippet}}"
+
+TASK:
+1. ACCUMULATE STAR evidence for "{{parameter}}". MERGE new facts with Previous STAR Context. Do not lose old details unless contradicted.
+{{probeInstruction}}
+3. CITE: For each non-empty STAR field, copy into "citations" the candidate's exact words that support it.
+
+RESTRICTIONS:
+- Evidence must be explicit.
+- Citations must be verbatim from the transcript above. Never paraphrase or shorten a quote.
+- Output MUST be valid JSON.`
+  },
+  holistic: {
+    id: 'holistic',
+    label: 'Holistic Rating',
+    description: 'Whole-interview STAR evidence and 1-4 ratings on the summary screen.',
+    placeholders: ['parameters', 'transcript'],
+    version: 3,
+    text: `You are an expert HR Auditor.
+Objective: Review the ENTIRE interview transcript to extract holistic STAR evidence for specific competencies.
+
+CRITICAL INSTRUCTION:
+Candidates often scatter evidence across different questions.
+You must CROSS-REFERENCE the entire transcript.
+If a candidate mentions a "Conflict Resolution" example while answering a "Leadership" question, YOU MUST capture it for the "Conflict Resolution" parameter.
+
+PARAMETERS TO ANALYZE:
+{{parameters}}
+
+FULL TRANSCRIPT:
+---
+{{transcript}}
+---
+
+OUTPUT FORMAT:
+Return a JSON map where keys are the Parameter IDs.
+Values must be objects with:
+- starEvidence: { situation, task, action, result }
+- rating: (1-4 integer based on anchors)
+- citations: { situation, task, action, result }, each an array of the candidate's exact words supporting that field
+- rationale: { matchedAnchor, lowerRejected, higherRejected }
+  - matchedAnchor: which level's anchor the evidence matches, and how
+  - lowerRejected: why the level below does not fit ("" at level 1)
+  - higherRejected: why the level above does not fit ("" at level 4)
+- confidence: 0 to 1, how sure you are of the rating
+- insufficientEvidence: true if the transcript does not contain enough evidence to rate this parameter reliably
+
+RULES:
+1. READ BETWEEN THE LINES. Look for consistency and depth.
+2. If evidence is vague or generic, rate lower (1 or 2).
+3. If evidence is concrete and specific (names, numbers, quotes), rate higher (3 or 4).
+4. "starEvidence" fields must be strings.
+5. Citations must be copied verbatim from the transcript. Never paraphrase a quote.
+6. Refer to the anchor text in the rationale. When evidence is thin, lower the confidence and set insufficientEvidence instead of guessing.`
+  },
+  holisticExtract: {
+    id: 'holisticExtract',
+    label: 'Long Interview: Extract',
+    description: 'Collects evidence per parameter from one section of a transcript too long for a single pass.',
+    placeholders: ['parameters', 'transcript', 'chunkIndex', 'chunkCount'],
+    version: 2,
+    text: `You are an expert HR Auditor reviewing a long interview in sections.
+This is section {{chunkIndex}} of {{chunkCount}}. Sections overlap slightly at their edges.
+
+PARAMETERS TO LOOK FOR:
+{{parameters}}
+
+TRANSCRIPT SECTION:
+---
+{{transcript}}
+---
+
+TASK:
+For EVERY parameter, list the concrete behavioral evidence in this section: situations, tasks, actions taken and results achieved.
+Candidates scatter evidence across questions, so capture evidence for a parameter wherever it appears, not only under its own question.
+
+RULES:
+1. Each item is a verbatim excerpt of what the candidate said, copied exactly (at most two sentences).
+2. Only include what the candidate actually said. Do NOT infer or invent.
+3. Use an empty array for parameters with no evidence in this section.
+4. Return a JSON map where keys are the Parameter IDs and values are arrays of strings.`
+  },
+  holisticReduce: {
+    id: 'holisticReduce',
+    label: 'Long Interview: Rate',
+    description: 'Merges the evidence collected from every section into final STAR and a 1-4 rating for one parameter.',
+    placeholders: ['parameter', 'question', 'anchors', 'evidence'],
+    version: 3,
+    text: `You are an expert HR Auditor.
+Objective: Consolidate evidence gathered from every section of a long interview into final STAR evidence and a rating for ONE competency.
+
+Parameter: {{parameter}}
+Question Asked: "{{question}}"
+Rubric Anchors:
+{{anchors}}
+
+EVIDENCE BY TRANSCRIPT SECTION:
+{{evidence}}
+
+TASK:
+1. Merge the evidence into one STAR account. Remove duplicates from overlapping sections; keep concrete details.
+2. Rate 1-4 against the anchors.
+3. For each non-empty STAR field, copy into "citations" the evidence excerpts that support it, exactly as written above.
+4. Explain the rating in "rationale": matchedAnchor (which anchor the evidence matches, and how), lowerRejected (why the level below does not fit, "" at level 1) and higherRejected (why the level above does not fit, "" at level 4).
+5. Set "confidence" (0 to 1) and set "insufficientEvidence" to true if the evidence is too thin to rate reliably.
+
+RULES:
+1. If evidence is vague or generic, rate lower (1 or 2).
+2. If evidence is concrete and specific (names, numbers, quotes), rate higher (3 or 4).
+3. Use "" for STAR fields with no evidence. Do NOT invent details.
+4. Return JSON with starEvidence { situation, task, action, result }, rating (1-4 integer), citations { situation, task, action, result } (arrays of excerpts), rationale, confidence and insufficientEvidence.`
+  },
+  masterTranscript: {
+    id: 'masterTranscript',
+    label: 'Master Transcript',
+    description: 'Combined transcription of every recording in the session.',
+    placeholders: ['audioCount'],
+    version: 1,
+    text: `Please transcribe the following interview audio files verbatim. Combine them into a single chronological transcript. Label speakers as INTERVIEWER and CANDIDATE if possible, or just transcribe the dialogue directly.`
+  },
+  regenerate: {
+    id: 'regenerate',
+    label: 'Regenerate Question',
+    description: 'Re-transcribes and re-analyzes all recordings of one question.',
+    placeholders: [...ITEM_PLACEHOLDERS, 'audioCount', 'languageInstruction'],
+    version: 4,
+    text: `This interview response is split across {{audioCount}} separate audio files.
+They are provided in chronological order.
+
+YOUR TASK:
+1. Listen to ALL audio files in the sequence. Each part contains a separate section of the conversation.
+2. Transcribe the FULL conversation from start to finish as "turns": one entry per change of speaker, in order, with "speaker" ("interviewer" or "candidate") and "text".
+3. Extract the FINAL consolidated STAR evidence for "{{parameter}}".
+4. Generate 2-3 specific probing questions IF the evidence is still weak.
+5. For each non-empty STAR field, copy into "citations" the candidate's exact words from your turns that support it.
+{{languageInstruction}}
+
+Output Format: JSON.`
+  },
+  translate: {
+    id: 'translate',
+    label: 'Translate Answer',
+    description: 'English rendering of an answer given in another language, used when the speech-to-text engine cannot translate.',
+    placeholders: ['language', 'transcript'],
+    version: 1,
+    text: `Translate this interview answer from {{language}} into English.
+The candidate may switch between {{language}} and English mid-sentence; keep English phrases as spoken.
+
+ANSWER:
+---
+{{transcript}}
+---
+
+RULES:
+1. Translate faithfully. Keep names, numbers, and technical terms exactly.
+2. Do NOT summarize, correct, or add anything.
+3. Output ONLY the English translation.`
+  },
+};
+
+export interface ResolvedPromptTemplate {
+  text: string;
+  version: string; // e.g. "analyze/default@1", "analyze/custom@3", "analyze/item@2"
+}
+
+/**
+ * Picks the template to use: a per-item override, then a global override, then the default.
+ */
+export const resolvePromptTemplate = (
+  settings: AppSettings,
+  id: PromptTemplateId,
+  rubricItemId?: string
+): ResolvedPromptTemplate => {
+  const itemOverride: CustomPromptTemplate | undefined = rubricItemId && (ITEM_TEMPLATE_IDS as string[]).includes(id)
+    ? settings.rubricPromptOverrides?.[rubricItemId]?.[id as ItemPromptTemplateId]
+    : undefined;
+  if (itemOverride) return { text: itemOverride.text, version: `${id}/item@${itemOverride.version}` };
+
+  const custom = settings.promptTemplates?.[id];
+  if (custom) return { text: custom.text, version: `${id}/custom@${custom.version}` };
+
+  const fallback = DEFAULT_PROMPT_TEMPLATES[id];
+  return { text: fallback.text, version: `${id}/default@${fallback.version}` };
+};
+
+/**
+ * Replaces {{name}} placeholders. Unknown placeholders are left as written so
+ * typos stay visible in the prompt instead of silently disappearing.
+ */
+export const renderTemplate = (text: string, values: Record<string, string | number>): string => {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => name in values ? String(values[name]) : match);
+};
+
+export const formatAnchors = (item: RubricItem): string => {
+  return `1 (Poor): ${item.level1}
+2 (Fair): ${item.level2}
+3 (Good): ${item.level3}
+4 (Excellent): ${item.level4}`;
+};
+
+/**
+ * Placeholder values shared by every item-level template.
+ */
+export const itemPlaceholderValues = (item: RubricItem): Record<string, string> => ({
+  question: item.question,
+  parameter: item.parameter,
+  competency: item.competency,
+  anchors: formatAnchors(item),
+});
+
+/**
+ * Version tag for a task, combining the persona and task templates where both apply.
+ * Stamped onto results so reports can state which prompt produced them.
+ */
+export const describePromptVersion = (
+  settings: AppSettings,
+  task: 'analyze' | 'holistic' | 'holisticChunked' | 'regenerate',
+  rubricItemId?: string
+): string => {
+  if (task === 'holisticChunked') {
+    return `${resolvePromptTemplate(settings, 'holisticExtract').version}+${resolvePromptTemplate(settings, 'holisticReduce').version}`;
+  }
+  const taskVersion = resolvePromptTemplate(settings, task, rubricItemId).version;
+  if (task === 'holistic') return taskVersion;
+  return `${resolvePromptTemplate(settings, 'systemInstruction', rubricItemId).version}+${taskVersion}`;
+};
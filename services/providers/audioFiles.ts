@@ -0,0 +1,61 @@
+/**
+ * Converts base64 audio back into a Blob for multipart uploads.
+ */
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const byteCharacters = atob(base64);
+  const byteNumbers = new Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteNumbers[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([new Uint8Array(byteNumbers)], { type: mimeType });
+};
+
+/**
+ * Picks an upload file name whose extension matches the audio container,
+ * since several speech-to-text servers sniff the format from the name.
+ */
+export const audioFileName = (mimeType: string): string => {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'wav';
+  const ext = subtype === 'mpeg' ? 'mp3' : subtype === 'x-wav' ? 'wav' : subtype;
+  return `audio.${ext}`;
+};
+
+/**
+ * Reads the duration of base64 PCM WAV audio from its header.
+ * Returns undefined for other containers, whose duration needs decoding.
+ */
+export const wavDurationSeconds = (base64: string, mimeType: string): number | undefined => {
+  if (!/wav/.test(mimeType)) return undefined;
+  const header = atob(base64.slice(0, 64)); // 48 bytes, enough for the 44-byte header
+  if (header.length < 44 || header.slice(0, 4) !== 'RIFF') return undefined;
+
+  // Byte rate: little-endian uint32 at offset 28
+  const byteRate = [0, 1, 2, 3].reduce((sum, i) => sum + (header.charCodeAt(28 + i) << (8 * i)), 0) >>> 0;
+  if (!byteRate) return undefined;
+
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const totalBytes = (base64.length * 3) / 4 - padding;
+  return Math.max(0, totalBytes - 44) / byteRate;
+};
+
+/**
+ * Reads the duration of base64 Ogg Opus audio from the granule position of
+ * its last page, less the pre-skip in its header.
+ */
+export const oggOpusDurationSeconds = (base64: string, mimeType: string): number | undefined => {
+  if (!/ogg|opus/.test(mimeType)) return undefined;
+  const head = atob(base64.slice(0, 64)); // First page: 27-byte header, 1 lacing value, then OpusHead
+  if (head.slice(0, 4) !== 'OggS' || head.slice(28, 36) !== 'OpusHead') return undefined;
+  const preSkip = head.charCodeAt(38) | (head.charCodeAt(39) << 8);
+
+  const tail = atob(base64.slice(Math.max(0, base64.length - 8192) & ~3)); // Last pages
+  const page = tail.lastIndexOf('OggS');
+  if (page < 0 || page + 14 > tail.length) return undefined;
+  const byte = (i: number) => tail.charCodeAt(page + 6 + i);
+  const low = (byte(0) | (byte(1) << 8) | (byte(2) << 16) | (byte(3) << 24)) >>> 0;
+  const high = (byte(4) | (byte(5) << 8) | (byte(6) << 16) | (byte(7) << 24)) >>> 0;
+  return Math.max(0, high * 2 ** 32 + low - preSkip) / 48000;
+};
+
+export const audioDurationSeconds = (base64: string, mimeType: string): number | undefined =>
+  wavDurationSeconds(base64, mimeType) ?? oggOpusDurationSeconds(base64, mimeType);
@@ -0,0 +1,167 @@
+import { AIProvider } from "../../types";
+import { AudioInput, GenerateRequest, RequestContext } from "./registry";
+import { fetchWithRetry } from "./retry";
+import { recordUsage } from "../usageLedger";
+
+/**
+ * Shared client for endpoints speaking the OpenAI chat-completions protocol
+ * (OpenRouter, Ollama, llama.cpp server, vLLM, LM Studio).
+ */
+export interface ChatCompletionsTarget {
+  label: string; // Used in error messages, e.g. "OpenRouter"
+  provider: AIProvider; // Recorded in the usage ledger
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+}
+
+/**
+ * Many multimodal models accept audio through the image_url part.
+ */
+export const toAudioPart = (audio: AudioInput) => ({
+  type: "image_url",
+  image_url: { url: `data:${audio.mimeType};base64,${audio.data}` }
+});
+
+const postChatCompletions = async (
+  target: ChatCompletionsTarget,
+  messages: any[],
+  systemInstruction: string,
+  schemaDescription: string | undefined,
+  temperature: number | undefined,
+  stream: boolean,
+  options?: RequestContext
+): Promise<Response> => {
+  const fullMessages = [
+    { role: "system", content: systemInstruction + (schemaDescription ? `\n\nEnsure JSON matches this structure: ${schemaDescription}` : "") },
+    ...messages
+  ];
+
+  const response = await fetchWithRetry(target.url, {
+    method: "POST",
+    headers: {
+      ...target.headers,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      model: target.model,
+      messages: fullMessages,
+      temperature,
+      response_format: schemaDescription ? { type: "json_object" } : undefined,
+      stream: stream || undefined,
+      stream_options: stream ? { include_usage: true } : undefined
+    })
+  }, options);
+
+  if (!response.ok) {
+    const errText = await response.text();
+    console.error(`${target.label} Error Body:`, errText);
+    throw new Error(`${target.label} Error (${response.status}): ${errText.substring(0, 200)}...`);
+  }
+
+  return response;
+};
+
+export const callChatCompletions = async (
+  target: ChatCompletionsTarget,
+  messages: any[],
+  systemInstruction: string,
+  schemaDescription?: string,
+  temperature?: number,
+  options?: RequestContext
+): Promise<string> => {
+  const response = await postChatCompletions(target, messages, systemInstruction, schemaDescription, temperature, false, options);
+
+  const data = await response.json();
+  reportUsage(target, data.usage, options);
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) throw new Error(`${target.label} returned empty content.`);
+
+  return content;
+};
+
+/**
+ * Streams a completion over server-sent events, calling onText with the text so far.
+ */
+export const streamChatCompletions = async (
+  target: ChatCompletionsTarget,
+  messages: any[],
+  systemInstruction: string,
+  onText: (text: string) => void,
+  schemaDescription?: string,
+  temperature?: number,
+  options?: RequestContext
+): Promise<string> => {
+  const response = await postChatCompletions(target, messages, systemInstruction, schemaDescription, temperature, true, options);
+  if (!response.body) throw new Error(`${target.label} returned no response stream.`);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let usage: any;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are newline-delimited; keep the trailing partial line for the next read
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      // Lines starting with ":" are keep-alive comments (e.g. ": OPENROUTER PROCESSING")
+      if (!trimmed.startsWith("data:")) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === "[DONE]") continue;
+
+      let event: any;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      if (event.error) {
+        throw new Error(`${target.label} Error: ${event.error.message || JSON.stringify(event.error)}`);
+      }
+      // Sent in the final event when stream_options.include_usage is honoured
+      if (event.usage) usage = event.usage;
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onText(content);
+      }
+    }
+  }
+
+  reportUsage(target, usage, options);
+  if (!content) throw new Error(`${target.label} returned empty content.`);
+  return content;
+};
+
+/**
+ * Records an OpenAI-style usage block; OpenRouter also reports the actual cost.
+ */
+const reportUsage = (target: ChatCompletionsTarget, usage: any, context?: RequestContext) => {
+  if (!usage) return;
+  recordUsage({
+    provider: target.provider,
+    model: target.model,
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    reportedCost: typeof usage.cost === 'number' ? usage.cost : undefined
+  }, context);
+};
+
+/**
+ * Builds the single user message for a generation request.
+ */
+export const toChatMessages = (request: GenerateRequest) => [{
+  role: "user",
+  content: [
+    ...(request.audio || []).map(toAudioPart),
+    { type: "text", text: request.prompt }
+  ]
+}];
@@ -0,0 +1,85 @@
+import { SpeakerTurn, TranscriptSpeaker } from "../../types";
+
+/**
+ * Speaker diarization shared by the transcription adapters. Audio-capable
+ * LLMs are prompted to label speakers; engines that report anonymous speaker
+ * ids have roles assigned by talk time.
+ */
+
+export const DIARIZATION_INSTRUCTION = `Two people may speak: an INTERVIEWER asking questions and a CANDIDATE answering them.
+Start every change of speaker on a new line with "INTERVIEWER:" or "CANDIDATE:". If only one person speaks, label it all CANDIDATE.`;
+
+const SPEAKER_LABEL = /^[ \t]*\**(INTERVIEWER|CANDIDATE)\**[ \t]*:\**[ \t]*/gim;
+
+/**
+ * Joins consecutive turns by the same speaker and drops empty ones.
+ */
+export const mergeSpeakerTurns = (turns: SpeakerTurn[]): SpeakerTurn[] => {
+  const merged: SpeakerTurn[] = [];
+  turns.forEach(turn => {
+    const text = turn.text.trim();
+    if (!text) return;
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === turn.speaker) {
+      last.text += ' ' + text;
+      if (turn.end !== undefined) last.end = turn.end;
+      if (turn.segments) last.segments = [...(last.segments || []), ...turn.segments];
+    } else {
+      merged.push({ ...turn, text });
+    }
+  });
+  return merged;
+};
+
+/**
+ * Splits a transcript written with INTERVIEWER:/CANDIDATE: line labels into
+ * turns. Returns undefined when the model ignored the labelling instruction.
+ */
+export const parseSpeakerLabels = (text: string): SpeakerTurn[] | undefined => {
+  const matches = [...text.matchAll(SPEAKER_LABEL)];
+  if (!matches.length) return undefined;
+
+  const turns: SpeakerTurn[] = [{ speaker: 'unknown', text: text.slice(0, matches[0].index!) }];
+  matches.forEach((match, i) => {
+    const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    turns.push({
+      speaker: match[1].toLowerCase() as TranscriptSpeaker,
+      text: text.slice(match.index! + match[0].length, end)
+    });
+  });
+  return mergeSpeakerTurns(turns);
+};
+
+export interface DiarizedEntry {
+  speakerId: string;
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Maps anonymous speaker ids to roles: whoever talks most is the candidate
+ * answering, everyone else the interviewer.
+ */
+export const assignSpeakerRoles = (entries: DiarizedEntry[]): SpeakerTurn[] => {
+  const words = new Map<string, number>();
+  entries.forEach(entry => {
+    words.set(entry.speakerId, (words.get(entry.speakerId) || 0) + entry.text.split(/\s+/).filter(Boolean).length);
+  });
+  const candidateId = [...words.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return mergeSpeakerTurns(entries.map(entry => ({
+    speaker: entry.speakerId === candidateId ? 'candidate' : 'interviewer',
+    text: entry.text,
+    start: entry.start,
+    end: entry.end,
+    segments: entry.start !== undefined && entry.end !== undefined
+      ? [{ start: entry.start, end: entry.end, text: entry.text.trim() }]
+      : undefined
+  })));
+};
+
+/**
+ * Plain transcript text of diarized turns, without labels.
+ */
+export const joinSpeakerTurns = (turns: SpeakerTurn[]): string => turns.map(turn => turn.text).join('\n\n');
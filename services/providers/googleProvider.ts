@@ -0,0 +1,167 @@
+import { FileState, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { AppSettings } from "../../types";
+import { AudioInput, GenerateRequest, ProviderAdapter, RequestContext } from "./registry";
+import { recordUsage } from "../usageLedger";
+import { sleep, withRetry } from "./retry";
+import { transcriptionLanguageHint } from "../../utils/languages";
+import { DIARIZATION_INSTRUCTION, joinSpeakerTurns, parseSpeakerLabels } from "./diarization";
+
+/**
+ * Helper to get the API key for Google
+ */
+const getGoogleApiKey = (settings: AppSettings): string => {
+  const key = settings.googleApiKey || (import.meta as any).env?.VITE_GEMINI_API_KEY || (import.meta as any).env?.GEMINI_API_KEY;
+  if (!key || key === 'PLACEHOLDER_API_KEY') {
+    throw new Error("Google API Key is missing. Please provide it in Settings.");
+  }
+  return key;
+};
+
+/**
+ * Creates a GoogleGenAI client from settings.
+ */
+export const createGoogleClient = (settings: AppSettings): GoogleGenAI => {
+  const apiKey = getGoogleApiKey(settings);
+  return new GoogleGenAI({ apiKey });
+};
+
+const AUDIO_TOKENS_PER_SECOND = 32;
+const FILE_POLL_MS = 2000; // Uploaded audio is usually ready within a few seconds
+
+// Uploaded audio is referenced by URI; everything else goes inline
+const toAudioPart = (audio: AudioInput) => audio.fileUri
+  ? { fileData: { fileUri: audio.fileUri, mimeType: audio.mimeType } }
+  : { inlineData: { mimeType: audio.mimeType, data: audio.data } };
+
+/**
+ * Records a Gemini response's usageMetadata in the usage ledger.
+ */
+export const reportGoogleUsage = (
+  model: string,
+  usage: GenerateContentResponseUsageMetadata | undefined,
+  context?: RequestContext
+) => {
+  if (!usage) return;
+  const audioTokens = usage.promptTokensDetails?.find(d => d.modality === 'AUDIO')?.tokenCount;
+  recordUsage({
+    provider: 'google',
+    model,
+    inputTokens: usage.promptTokenCount,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    audioSeconds: audioTokens ? audioTokens / AUDIO_TOKENS_PER_SECOND : undefined
+  }, context);
+};
+
+/**
+ * Builds generateContent parameters shared by the plain and streaming calls.
+ */
+const buildGenerateParams = (settings: AppSettings, request: GenerateRequest) => {
+  const contents = request.audio?.length
+    ? [
+      {
+        role: "user",
+        parts: [
+          ...request.audio.map(toAudioPart),
+          { text: request.prompt }
+        ]
+      }
+    ]
+    : request.prompt;
+
+  return {
+    model: settings.modelName,
+    contents,
+    config: {
+      abortSignal: request.context?.signal,
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      ...(request.schema ? {
+        responseMimeType: "application/json",
+        responseSchema: request.schema.jsonSchema
+      } : {})
+    }
+  };
+};
+
+export const googleProvider: ProviderAdapter = {
+  id: 'google',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  capabilities: {
+    transcription: true,
+    textAnalysis: true,
+    multiAudioInput: true,
+    structuredOutput: true,
+  },
+  audioLimits: { maxInlineBytes: 18 * 1024 * 1024 }, // Requests are capped at 20 MB; the rest is headroom for the prompt
+
+  hasCredentials: (settings) => !!settings.googleApiKey && settings.googleApiKey.length > 5,
+
+  transcribe: async (settings, audio, context) => {
+    const ai = createGoogleClient(settings);
+    const response = await withRetry(() => ai.models.generateContent({
+      model: settings.modelName,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            toAudioPart(audio),
+            { text: [
+              'Transcribe audio verbatim. Provide the complete transcript of everything spoken.',
+              transcriptionLanguageHint(settings.transcriptionLanguage),
+              context?.diarize ? DIARIZATION_INSTRUCTION : ''
+            ].filter(Boolean).join(' ') }
+          ]
+        }
+      ],
+      config: {
+        abortSignal: context?.signal,
+        systemInstruction: "You are a professional transcriber. Output only the verbatim transcript text. Do NOT use JSON."
+      }
+    }), context);
+    reportGoogleUsage(settings.modelName, response.usageMetadata, context);
+    const text = response.text?.trim() || "";
+    const turns = context?.diarize ? parseSpeakerLabels(text) : undefined;
+    return turns ? { text: joinSpeakerTurns(turns), turns } : { text };
+  },
+
+  // Files API: audio is kept for 48 hours and can be referenced by any request meanwhile
+  uploadAudio: async (settings, audio, mimeType, context) => {
+    const ai = createGoogleClient(settings);
+    let file = await withRetry(() => ai.files.upload({ file: audio, config: { mimeType, abortSignal: context?.signal } }), context);
+    while (file.state === FileState.PROCESSING && file.name) {
+      await sleep(FILE_POLL_MS, context?.signal);
+      const name = file.name;
+      file = await withRetry(() => ai.files.get({ name, config: { abortSignal: context?.signal } }), context);
+    }
+    if (file.state === FileState.FAILED || !file.uri) {
+      throw new Error(`Gemini could not process the uploaded audio${file.error?.message ? `: ${file.error.message}` : '.'}`);
+    }
+    return { data: '', mimeType: file.mimeType || mimeType, fileUri: file.uri };
+  },
+
+  generate: async (settings, request) => {
+    const ai = createGoogleClient(settings);
+    const response = await withRetry(() => ai.models.generateContent(buildGenerateParams(settings, request)), request.context);
+    reportGoogleUsage(settings.modelName, response.usageMetadata, request.context);
+    return response.text || "";
+  },
+
+  generateStream: async (settings, request, onText) => {
+    const ai = createGoogleClient(settings);
+    const stream = await withRetry(() => ai.models.generateContentStream(buildGenerateParams(settings, request)), request.context);
+
+    let text = "";
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      // Every chunk carries cumulative usage; the last one is the total
+      usage = chunk.usageMetadata || usage;
+      if (chunk.text) {
+        text += chunk.text;
+        onText(text);
+      }
+    }
+    reportGoogleUsage(settings.modelName, usage, request.context);
+    return text;
+  },
+};
@@ -0,0 +1,33 @@
+import { registerProvider } from "./registry";
+import { googleProvider } from "./googleProvider";
+import { openRouterProvider } from "./openRouterProvider";
+import { sarvamProvider } from "./sarvamProvider";
+import { selfHostedProvider } from "./selfHostedProvider";
+import { whisperProvider } from "./whisperProvider";
+import { replayProvider } from "./replayProvider";
+
+// Built-in providers. Additional adapters can be added with registerProvider().
+registerProvider(googleProvider);
+registerProvider(openRouterProvider);
+registerProvider(sarvamProvider);
+registerProvider(selfHostedProvider);
+registerProvider(whisperProvider);
+registerProvider(replayProvider);
+
+export {
+  registerProvider,
+  findProvider,
+  getProvider,
+  listProviders,
+  getProviderCapabilities,
+  getTranscriptionProvider,
+  requireCapability,
+} from "./registry";
+export { fetchSelfHostedModels, DEFAULT_SELF_HOSTED_BASE_URL } from "./selfHostedProvider";
+export { DEFAULT_WHISPER_BASE_URL } from "./whisperProvider";
+export { toSarvamLanguageCode } from "./sarvamProvider";
+export { reportGoogleUsage } from "./googleProvider";
+export { parseReplayBundle, resetReplay } from "./replayProvider";
+export { fetchWithRetry, isAbortError, throwIfAborted, withRetry } from "./retry";
+export type { AudioInput, AudioLimits, GenerateRequest, ProviderAdapter, RequestContext } from "./registry";
+export type { CallOptions, RetryInfo } from "./retry";
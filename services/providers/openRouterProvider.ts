@@ -0,0 +1,82 @@
+import { AppSettings } from "../../types";
+import { ProviderAdapter } from "./registry";
+import { callChatCompletions, streamChatCompletions, ChatCompletionsTarget, toAudioPart, toChatMessages } from "./chatCompletions";
+import { isAbortError } from "./retry";
+import { transcriptionLanguageHint } from "../../utils/languages";
+import { DIARIZATION_INSTRUCTION, joinSpeakerTurns, parseSpeakerLabels } from "./diarization";
+
+const getOpenRouterTarget = (settings: AppSettings): ChatCompletionsTarget => {
+  if (!settings.openRouterApiKey) throw new Error("OpenRouter API Key is missing.");
+
+  return {
+    label: "OpenRouter",
+    provider: 'openrouter',
+    url: "https://openrouter.ai/api/v1/chat/completions",
+    headers: {
+      "Authorization": `Bearer ${settings.openRouterApiKey}`,
+      "HTTP-Referer": window.location.origin,
+      "X-Title": "Local BARS Interviewer"
+    },
+    model: settings.modelName
+  };
+};
+
+export const openRouterProvider: ProviderAdapter = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  defaultModel: 'google/gemini-3-flash-preview',
+  capabilities: {
+    transcription: true,
+    textAnalysis: true,
+    multiAudioInput: true,
+    structuredOutput: false, // json_object mode only; the schema is described in the prompt
+  },
+
+  audioLimits: { maxInlineBytes: 18 * 1024 * 1024 }, // Audio models behind it take about 20 MB per request, base64 included
+
+  hasCredentials: (settings) => !!settings.openRouterApiKey && settings.openRouterApiKey.length > 5,
+
+  transcribe: async (settings, audio, context) => {
+    try {
+      const prompt = [
+        'Transcribe this audio verbatim. Output ONLY the raw transcript text. Do not output JSON. Do not add any preamble or postscript.',
+        transcriptionLanguageHint(settings.transcriptionLanguage),
+        context?.diarize ? DIARIZATION_INSTRUCTION : ''
+      ].filter(Boolean).join(' ');
+      const rawText = await callChatCompletions(getOpenRouterTarget(settings), [{
+        role: "user",
+        content: [toAudioPart(audio), { type: "text", text: prompt }]
+      }], "You are a professional transcriber. Output ONLY the raw transcript text. Do not output JSON.", undefined, undefined, context);
+      const text = rawText.trim();
+      const turns = context?.diarize ? parseSpeakerLabels(text) : undefined;
+      return turns ? { text: joinSpeakerTurns(turns), turns } : { text };
+    } catch (err: any) {
+      if (isAbortError(err)) throw err;
+      console.warn("OpenRouter Transcription failed:", err);
+      throw new Error(`OpenRouter Transcription failed. Ensure your selected model (${settings.modelName}) supports audio input. Error: ` + err.message);
+    }
+  },
+
+  generate: async (settings, request) => {
+    return callChatCompletions(
+      getOpenRouterTarget(settings),
+      toChatMessages(request),
+      request.systemInstruction,
+      request.schema?.description,
+      request.temperature,
+      request.context
+    );
+  },
+
+  generateStream: async (settings, request, onText) => {
+    return streamChatCompletions(
+      getOpenRouterTarget(settings),
+      toChatMessages(request),
+      request.systemInstruction,
+      onText,
+      request.schema?.description,
+      request.temperature,
+      request.context
+    );
+  },
+};
@@ -0,0 +1,134 @@
+import { AIProvider, AITask, AppSettings, ProviderCapabilities, TranscriptionResult } from "../../types";
+import { CallOptions } from "./retry";
+
+/**
+ * Base64-encoded audio passed to a provider, or a reference to audio already
+ * uploaded with the provider's uploadAudio (data is then empty).
+ */
+export interface AudioInput {
+  data: string;
+  mimeType: string;
+  fileUri?: string;
+}
+
+/**
+ * What one request can carry. Larger audio is uploaded (uploadAudio) or split.
+ */
+export interface AudioLimits {
+  maxInlineBytes?: number; // Base64 audio per request
+  maxTranscribeSeconds?: number; // Longest clip transcribe accepts
+}
+
+/**
+ * What a request is for. Real models infer this from the prompt; fixture-driven
+ * providers (offline replay) use it to look up canned outputs.
+ * Also carries the caller's abort signal and retry listener.
+ */
+export interface RequestContext extends CallOptions {
+  task: AITask;
+  rubricItemIds?: string[];
+  diarize?: boolean; // Transcription only: split the recording into speaker turns where the engine can
+  live?: boolean; // Transcription only: one live-mode chunk rather than a whole recording
+}
+
+/**
+ * A provider-neutral generation request built by the service layer.
+ */
+export interface GenerateRequest {
+  prompt: string;
+  systemInstruction: string;
+  audio?: AudioInput[];
+  // JSON contract. Providers with structuredOutput use jsonSchema; others receive the description.
+  schema?: {
+    description: string;
+    jsonSchema: Record<string, any>;
+  };
+  temperature?: number;
+  context?: RequestContext;
+}
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  label: string;
+  defaultModel?: string;
+  capabilities: ProviderCapabilities;
+  hasCredentials: (settings: AppSettings) => boolean;
+  transcribe?: (settings: AppSettings, audio: AudioInput, context?: RequestContext) => Promise<TranscriptionResult>;
+  // Dedicated translation into English; without it, translation falls back to the analysis model
+  translate?: (settings: AppSettings, text: string, sourceLanguage: string, context?: RequestContext) => Promise<string>;
+  generate?: (settings: AppSettings, request: GenerateRequest) => Promise<string>;
+  // Like generate, but reports the accumulated text as it arrives
+  generateStream?: (settings: AppSettings, request: GenerateRequest, onText: (text: string) => void) => Promise<string>;
+  audioLimits?: AudioLimits;
+  // Stores audio with the provider for requests too large to inline
+  uploadAudio?: (settings: AppSettings, audio: Blob, mimeType: string, context?: RequestContext) => Promise<AudioInput>;
+}
+
+const NO_CAPABILITIES: ProviderCapabilities = {
+  transcription: false,
+  textAnalysis: false,
+  multiAudioInput: false,
+  structuredOutput: false,
+};
+
+const CAPABILITY_LABELS: Record<keyof ProviderCapabilities, string> = {
+  transcription: 'transcription',
+  textAnalysis: 'analysis',
+  multiAudioInput: 'multiple audio inputs',
+  structuredOutput: 'structured JSON output',
+};
+
+const adapters = new Map<AIProvider, ProviderAdapter>();
+
+/**
+ * Registers (or replaces) a provider adapter.
+ */
+export const registerProvider = (adapter: ProviderAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+export const findProvider = (id: AIProvider): ProviderAdapter | undefined => adapters.get(id);
+
+export const getProvider = (id: AIProvider): ProviderAdapter => {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    throw new Error(`Unknown AI provider "${id}". Please select a provider in Settings.`);
+  }
+  return adapter;
+};
+
+export const listProviders = (): ProviderAdapter[] => Array.from(adapters.values());
+
+/**
+ * Capabilities for a provider id; unknown providers support nothing.
+ * Used by the UI to disable actions instead of failing at call time.
+ */
+export const getProviderCapabilities = (id: AIProvider): ProviderCapabilities => {
+  return adapters.get(id)?.capabilities || NO_CAPABILITIES;
+};
+
+/**
+ * Resolves the speech-to-text adapter and the settings it should run with.
+ * When transcription uses a different provider than analysis, the shared
+ * modelName is swapped for the transcription model.
+ */
+export const getTranscriptionProvider = (settings: AppSettings): { adapter: ProviderAdapter; settings: AppSettings } => {
+  const id = settings.transcriptionProvider || settings.provider;
+  const adapter = getProvider(id);
+  if (id === settings.provider) {
+    return { adapter, settings };
+  }
+  return {
+    adapter,
+    settings: { ...settings, modelName: settings.transcriptionModelName || adapter.defaultModel || settings.modelName }
+  };
+};
+
+/**
+ * Throws a user-facing error if the adapter lacks the given capability.
+ */
+export const requireCapability = (adapter: ProviderAdapter, capability: keyof ProviderCapabilities) => {
+  if (!adapter.capabilities[capability]) {
+    throw new Error(`${adapter.label} does not support ${CAPABILITY_LABELS[capability]}. Please select a different provider in Settings.`);
+  }
+};
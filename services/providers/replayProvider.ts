@@ -0,0 +1,148 @@
+import { AppSettings, HolisticRating, ReplayBundle, ReplayFixture, STARResult } from "../../types";
+import { demoReplayBundle } from "../../data/demoReplayBundle";
+import { ProviderAdapter } from "./registry";
+import { throwIfAborted } from "./retry";
+import { joinSpeakerTurns, parseSpeakerLabels } from "./diarization";
+
+/**
+ * Offline provider that answers every request from a fixture bundle, so the
+ * interview flow can be demoed, trained on and developed without API keys.
+ */
+
+const EMPTY_STAR: STARResult = { situation: '', task: '', action: '', result: '' };
+
+// Per-bundle call counters: "<rubricId>:<kind>" -> number of calls so far
+let counters = new Map<string, number>();
+let countersBundle: ReplayBundle | null = null;
+
+const getBundle = (settings: AppSettings): ReplayBundle => settings.replayBundle || demoReplayBundle;
+
+const getFixture = (bundle: ReplayBundle, rubricItemId?: string): ReplayFixture | undefined => {
+  return (rubricItemId && bundle.fixtures[rubricItemId]) || bundle.fallback;
+};
+
+/**
+ * Returns the next entry of a fixture list; the last entry repeats once the list is exhausted.
+ */
+const nextEntry = <T>(bundle: ReplayBundle, key: string, list: T[] | undefined): T | undefined => {
+  if (!list || list.length === 0) return undefined;
+  if (countersBundle !== bundle) {
+    counters = new Map();
+    countersBundle = bundle;
+  }
+  const index = counters.get(key) || 0;
+  counters.set(key, index + 1);
+  return list[Math.min(index, list.length - 1)];
+};
+
+/**
+ * Restarts every fixture sequence from its first entry.
+ */
+export const resetReplay = () => {
+  counters = new Map();
+};
+
+/**
+ * Validates an uploaded fixture bundle.
+ */
+export const parseReplayBundle = (json: string): ReplayBundle => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object' || !data.fixtures || typeof data.fixtures !== 'object') {
+    throw new Error("Invalid replay bundle: expected an object with a \"fixtures\" map keyed by rubric id.");
+  }
+  Object.entries(data.fixtures).forEach(([id, fixture]: [string, any]) => {
+    if (!Array.isArray(fixture?.transcripts)) {
+      throw new Error(`Invalid replay bundle: fixture "${id}" is missing a "transcripts" array.`);
+    }
+  });
+  return { name: data.name || "Custom bundle", fixtures: data.fixtures, fallback: data.fallback };
+};
+
+export const replayProvider: ProviderAdapter = {
+  id: 'replay',
+  label: 'Offline Replay',
+  defaultModel: 'replay',
+  capabilities: {
+    transcription: true,
+    textAnalysis: true,
+    multiAudioInput: true,
+    structuredOutput: true,
+  },
+
+  hasCredentials: () => true,
+
+  transcribe: async (settings, _audio, context) => {
+    throwIfAborted(context?.signal);
+    // Fixtures hold whole answers, so live chunks are not replayed; nor is audio without a rubric item
+    const rubricItemId = context?.rubricItemIds?.[0];
+    if (context?.live || !rubricItemId) return { text: "" };
+
+    const bundle = getBundle(settings);
+    const fixture = getFixture(bundle, rubricItemId);
+    const text = nextEntry(bundle, `${rubricItemId}:transcript`, fixture?.transcripts) || "";
+    // Fixture transcripts may label speakers the way prompted models do
+    const turns = context?.diarize ? parseSpeakerLabels(text) : undefined;
+    return turns ? { text: joinSpeakerTurns(turns), turns } : { text };
+  },
+
+  // Fixtures are written in English
+  translate: async (_settings, text, _sourceLanguage, context) => {
+    throwIfAborted(context?.signal);
+    return text;
+  },
+
+  generate: async (settings, request) => {
+    throwIfAborted(request.context?.signal);
+    const bundle = getBundle(settings);
+    const ids = request.context?.rubricItemIds || [];
+
+    switch (request.context?.task) {
+      case 'analyze': {
+        const id = ids[0];
+        const fixture = getFixture(bundle, id);
+        return JSON.stringify({
+          starUpdate: nextEntry(bundle, `${id}:star`, fixture?.starUpdates) || EMPTY_STAR,
+          probingQuestions: nextEntry(bundle, `${id}:probes`, fixture?.probingQuestions) || []
+        });
+      }
+      case 'holistic': {
+        const map: Record<string, HolisticRating> = {};
+        ids.forEach(id => {
+          const holistic = getFixture(bundle, id)?.holistic;
+          if (holistic) map[id] = holistic;
+        });
+        return JSON.stringify(map);
+      }
+      case 'holisticExtract': {
+        const map: Record<string, string[]> = {};
+        ids.forEach(id => {
+          map[id] = getFixture(bundle, id)?.transcripts || [];
+        });
+        return JSON.stringify(map);
+      }
+      case 'holisticReduce': {
+        const fixture = getFixture(bundle, ids[0]);
+        return JSON.stringify(fixture?.holistic || {
+          starEvidence: fixture?.starUpdates?.[fixture.starUpdates.length - 1] || EMPTY_STAR,
+          rating: 1
+        });
+      }
+      case 'regenerate': {
+        const id = ids[0];
+        const fixture = getFixture(bundle, id);
+        return JSON.stringify({
+          turns: (fixture?.transcripts || []).map(text => ({ speaker: 'candidate', text })),
+          starUpdate: fixture?.holistic?.starEvidence || fixture?.starUpdates?.[fixture.starUpdates.length - 1] || EMPTY_STAR,
+          probingQuestions: fixture?.probingQuestions?.[fixture.probingQuestions.length - 1] || []
+        });
+      }
+      case 'masterTranscript':
+        return ids
+          .map(id => (getFixture(bundle, id)?.transcripts || []).map(t => `CANDIDATE: ${t}`).join("\n\n"))
+          .filter(Boolean)
+          .join("\n\n");
+      default:
+        throw new Error("Offline Replay cannot answer this request: no fixture task was provided.");
+    }
+  },
+};
@@ -0,0 +1,159 @@
+/**
+ * Cancellation and retry policy shared by every provider call.
+ * Transient failures (rate limits, overloaded or flaky upstreams, dropped
+ * connections) are retried with exponential backoff; Retry-After wins when sent,
+ * and a server asking for longer than MAX_DELAY_MS gets its error surfaced
+ * rather than an early retry.
+ */
+
+export interface RetryInfo {
+  attempt: number;     // The attempt about to start (2 = first retry)
+  maxAttempts: number;
+  delayMs: number;     // Wait before that attempt
+  reason: string;      // e.g. "Rate limited (429)"
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  maxAttempts?: number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 4;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+const STATUS_REASONS: Record<number, string> = {
+  429: 'Rate limited',
+  503: 'Service overloaded',
+};
+
+export const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+// How fetch reports a connection failure in Chrome, Firefox, Safari and Node respectively
+const NETWORK_ERROR_MESSAGES = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+/**
+ * A dropped or refused connection, as opposed to a bug that happens to throw a TypeError.
+ */
+const isNetworkError = (err: any): boolean => err instanceof TypeError && NETWORK_ERROR_MESSAGES.test(err.message);
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(abortError());
+  };
+  const timeout = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Parses a Retry-After header (delta seconds or an HTTP date) into milliseconds.
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Reads the delay a server asked for from an SDK error: a Retry-After header
+ * when the error carries the response, else the RetryInfo detail Google APIs
+ * put in the error body (e.g. "retryDelay": "37s"), which ApiError keeps in
+ * its message.
+ */
+const errorRetryAfter = (err: any): number | null => {
+  const headers = err?.response?.headers ?? err?.headers;
+  const header = typeof headers?.get === 'function' ? headers.get('Retry-After') : headers?.['retry-after'];
+  const fromHeader = parseRetryAfter(typeof header === 'string' ? header : null);
+  if (fromHeader !== null) return fromHeader;
+
+  const detail = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(String(err?.message ?? ''));
+  return detail ? Number(detail[1]) * 1000 : null;
+};
+
+const backoffDelay = (attempt: number): number => {
+  const exponential = BASE_DELAY_MS * 2 ** (attempt - 1);
+  const jitter = Math.random() * BASE_DELAY_MS;
+  return Math.min(MAX_DELAY_MS, exponential + jitter);
+};
+
+const describeStatus = (status: number) => `${STATUS_REASONS[status] || 'Server error'} (${status})`;
+
+/**
+ * fetch() with cancellation and retries. Returns the last response, so callers
+ * keep their own handling of non-OK statuses once retries are exhausted.
+ */
+export const fetchWithRetry = async (url: string, init: RequestInit, options: CallOptions = {}): Promise<Response> => {
+  const maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: options.signal });
+    } catch (err: any) {
+      // Network failures surface as TypeError; aborts are never retried
+      if (isAbortError(err) || attempt >= maxAttempts) throw err;
+      const delayMs = backoffDelay(attempt);
+      options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: 'Network error' });
+      await sleep(delayMs, options.signal);
+      continue;
+    }
+
+    if (response.ok || !RETRYABLE_STATUS.has(response.status) || attempt >= maxAttempts) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null && retryAfter > MAX_DELAY_MS) return response; // Retrying sooner would only be refused again
+    const delayMs = retryAfter ?? backoffDelay(attempt);
+    console.warn(`Request to ${url} failed with ${response.status}, retrying in ${Math.round(delayMs)}ms`);
+    options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: describeStatus(response.status) });
+    await sleep(delayMs, options.signal);
+  }
+};
+
+/**
+ * Retries an SDK call whose errors carry an HTTP `status` (e.g. @google/genai ApiError).
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: CallOptions = {}): Promise<T> => {
+  const maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await task();
+    } catch (err: any) {
+      if (options.signal?.aborted) throw abortError();
+      const status = typeof err?.status === 'number' ? err.status : undefined;
+      const retryable = status ? RETRYABLE_STATUS.has(status) : isNetworkError(err);
+      if (!retryable || attempt >= maxAttempts) throw err;
+
+      const retryAfter = status ? errorRetryAfter(err) : null;
+      if (retryAfter !== null && retryAfter > MAX_DELAY_MS) throw err; // Retrying sooner would only be refused again
+      const delayMs = retryAfter ?? backoffDelay(attempt);
+      options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: status ? describeStatus(status) : 'Network error' });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,114 @@
+import { TranscriptSegment } from "../../types";
+import { ProviderAdapter } from "./registry";
+import { audioDurationSeconds, audioFileName, base64ToBlob } from "./audioFiles";
+import { recordUsage } from "../usageLedger";
+import { fetchWithRetry } from "./retry";
+import { baseLanguage } from "../../utils/languages";
+import { chunkTranscript } from "../../utils/transcriptChunks";
+import { assignSpeakerRoles, joinSpeakerTurns } from "./diarization";
+
+const SARVAM_TRANSLATE_MODEL = 'sarvam-translate:v1';
+const SARVAM_TRANSLATE_MAX_CHARS = 2000; // Per-request input limit of the translate endpoint
+
+/**
+ * Sarvam expects BCP-47 codes for Indian locales ("hi-IN"); "unknown" auto-detects.
+ */
+export const toSarvamLanguageCode = (code?: string): string => {
+  if (!code) return 'unknown';
+  const base = baseLanguage(code);
+  return `${base === 'or' ? 'od' : base}-IN`;
+};
+
+/**
+ * Sarvam reports timestamps as parallel arrays of text pieces and their start/end seconds.
+ */
+const toSegments = (timestamps: any): TranscriptSegment[] | undefined => {
+  const pieces = timestamps?.words;
+  if (!Array.isArray(pieces) || !pieces.length) return undefined;
+  return pieces.map((text: any, i: number) => ({
+    start: Number(timestamps.start_time_seconds?.[i]) || 0,
+    end: Number(timestamps.end_time_seconds?.[i]) || 0,
+    text: String(text || '').trim()
+  }));
+};
+
+export const sarvamProvider: ProviderAdapter = {
+  id: 'sarvam',
+  label: 'Sarvam AI',
+  defaultModel: 'saaras:v3',
+  capabilities: {
+    transcription: true,
+    textAnalysis: false,
+    multiAudioInput: false,
+    structuredOutput: false,
+  },
+  audioLimits: { maxTranscribeSeconds: 30 }, // The synchronous speech-to-text API rejects longer clips
+
+  hasCredentials: (settings) => !!settings.sarvamApiKey && settings.sarvamApiKey.length > 5,
+
+  transcribe: async (settings, audio, context) => {
+    if (!settings.sarvamApiKey) throw new Error("Sarvam API Key is missing.");
+    const model = settings.modelName || 'saaras:v3';
+
+    const formData = new FormData();
+    formData.append('file', base64ToBlob(audio.data, audio.mimeType), audioFileName(audio.mimeType));
+    formData.append('model', model);
+    formData.append('language_code', toSarvamLanguageCode(settings.transcriptionLanguage));
+    formData.append('with_timestamps', 'true');
+    if (context?.diarize) formData.append('with_diarization', 'true');
+
+    const response = await fetchWithRetry('https://api.sarvam.ai/speech-to-text', {
+      method: 'POST',
+      headers: { 'api-subscription-key': settings.sarvamApiKey },
+      body: formData
+    }, context);
+
+    if (!response.ok) {
+      throw new Error(`Sarvam Transcription Failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    recordUsage({ provider: 'sarvam', model, audioSeconds: audioDurationSeconds(audio.data, audio.mimeType) }, context);
+    const language = data.language_code || undefined;
+
+    // Models without diarization support return the plain transcript only
+    const entries = data.diarized_transcript?.entries;
+    if (context?.diarize && Array.isArray(entries) && entries.length) {
+      const turns = assignSpeakerRoles(entries.map((e: any) => ({
+        speakerId: String(e.speaker_id),
+        text: String(e.transcript || ''),
+        start: Number(e.start_time_seconds) || 0,
+        end: Number(e.end_time_seconds) || undefined
+      })));
+      return { text: joinSpeakerTurns(turns), turns, language };
+    }
+    return { text: data.transcript || "", segments: toSegments(data.timestamps), language };
+  },
+
+  translate: async (settings, text, sourceLanguage, context) => {
+    if (!settings.sarvamApiKey) throw new Error("Sarvam API Key is missing.");
+
+    // Translated piece by piece to stay under the input limit; no overlap, or sentences would repeat
+    const translated: string[] = [];
+    for (const piece of chunkTranscript(text, SARVAM_TRANSLATE_MAX_CHARS, 0)) {
+      const response = await fetchWithRetry('https://api.sarvam.ai/translate', {
+        method: 'POST',
+        headers: { 'api-subscription-key': settings.sarvamApiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input: piece,
+          source_language_code: toSarvamLanguageCode(sourceLanguage),
+          target_language_code: 'en-IN',
+          model: SARVAM_TRANSLATE_MODEL
+        })
+      }, context);
+
+      if (!response.ok) {
+        throw new Error(`Sarvam Translation Failed: ${response.status} ${await response.text()}`);
+      }
+      const data = await response.json();
+      translated.push(String(data.translated_text || '').trim());
+    }
+    // Billed per character, which the token-based usage ledger cannot price
+    return translated.join('\n\n');
+  },
+};
@@ -0,0 +1,83 @@
+import { AppSettings } from "../../types";
+import { ProviderAdapter } from "./registry";
+import { callChatCompletions, streamChatCompletions, ChatCompletionsTarget, toChatMessages } from "./chatCompletions";
+
+export const DEFAULT_SELF_HOSTED_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Normalizes a user-entered base URL ("http://host:port/v1", with or without
+ * a trailing slash) so endpoint paths can be appended to it.
+ */
+const normalizeBaseUrl = (baseUrl: string): string => {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+};
+
+const getAuthHeaders = (settings: AppSettings): Record<string, string> => {
+  return settings.selfHostedApiKey ? { "Authorization": `Bearer ${settings.selfHostedApiKey}` } : {};
+};
+
+const getSelfHostedTarget = (settings: AppSettings): ChatCompletionsTarget => {
+  if (!settings.selfHostedBaseUrl) throw new Error("Self-hosted server URL is missing. Please provide it in Settings.");
+
+  return {
+    label: "Self-hosted LLM",
+    provider: 'selfhosted',
+    url: `${normalizeBaseUrl(settings.selfHostedBaseUrl)}/chat/completions`,
+    headers: getAuthHeaders(settings),
+    model: settings.modelName
+  };
+};
+
+/**
+ * Lists the model ids served by the configured server (GET /models).
+ */
+export const fetchSelfHostedModels = async (settings: AppSettings): Promise<string[]> => {
+  if (!settings.selfHostedBaseUrl) throw new Error("Self-hosted server URL is missing. Please provide it in Settings.");
+
+  const response = await fetch(`${normalizeBaseUrl(settings.selfHostedBaseUrl)}/models`, {
+    headers: getAuthHeaders(settings)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Self-hosted LLM Error (${response.status}): ${(await response.text()).substring(0, 200)}`);
+  }
+
+  const data = await response.json();
+  return (data.data || []).map((m: any) => String(m.id)).filter(Boolean);
+};
+
+export const selfHostedProvider: ProviderAdapter = {
+  id: 'selfhosted',
+  label: 'Self-hosted LLM',
+  capabilities: {
+    transcription: false,
+    textAnalysis: true,
+    multiAudioInput: false,
+    structuredOutput: false,
+  },
+
+  hasCredentials: (settings) => !!settings.selfHostedBaseUrl && !!settings.modelName,
+
+  generate: async (settings, request) => {
+    return callChatCompletions(
+      getSelfHostedTarget(settings),
+      toChatMessages(request),
+      request.systemInstruction,
+      request.schema?.description,
+      request.temperature,
+      request.context
+    );
+  },
+
+  generateStream: async (settings, request, onText) => {
+    return streamChatCompletions(
+      getSelfHostedTarget(settings),
+      toChatMessages(request),
+      request.systemInstruction,
+      onText,
+      request.schema?.description,
+      request.temperature,
+      request.context
+    );
+  },
+};
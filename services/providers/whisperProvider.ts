@@ -0,0 +1,87 @@
+import { AppSettings, TranscriptSegment } from "../../types";
+import { ProviderAdapter } from "./registry";
+import { audioDurationSeconds, audioFileName, base64ToBlob } from "./audioFiles";
+import { recordUsage } from "../usageLedger";
+import { fetchWithRetry } from "./retry";
+
+export const DEFAULT_WHISPER_BASE_URL = "http://localhost:8080/v1";
+
+/**
+ * Normalizes a user-entered base URL so "/audio/transcriptions" can be appended.
+ */
+const getTranscriptionsUrl = (settings: AppSettings): string => {
+  if (!settings.whisperBaseUrl) throw new Error("Whisper server URL is missing. Please provide it in Settings.");
+  const base = settings.whisperBaseUrl.trim().replace(/\/+$/, '').replace(/\/audio\/transcriptions$/, '');
+  return `${base}/audio/transcriptions`;
+};
+
+/**
+ * Posts audio to an OpenAI-style /v1/audio/transcriptions endpoint
+ * (whisper.cpp server, faster-whisper-server, speaches).
+ */
+export const whisperProvider: ProviderAdapter = {
+  id: 'whisper',
+  label: 'Whisper (Local)',
+  defaultModel: 'whisper-1',
+  capabilities: {
+    transcription: true,
+    textAnalysis: false,
+    multiAudioInput: false,
+    structuredOutput: false,
+  },
+
+  audioLimits: { maxInlineBytes: Math.floor(24 * 1024 * 1024 * 4 / 3) }, // 25 MB file cap of the OpenAI API, measured as base64
+
+  hasCredentials: (settings) => !!settings.whisperBaseUrl,
+
+  transcribe: async (settings, audio, context) => {
+    const formData = new FormData();
+    formData.append('file', base64ToBlob(audio.data, audio.mimeType), audioFileName(audio.mimeType));
+    formData.append('model', settings.modelName);
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    if (settings.transcriptionLanguage) {
+      formData.append('language', settings.transcriptionLanguage);
+    }
+
+    const response = await fetchWithRetry(getTranscriptionsUrl(settings), {
+      method: 'POST',
+      headers: settings.whisperApiKey ? { 'Authorization': `Bearer ${settings.whisperApiKey}` } : {},
+      body: formData
+    }, context);
+
+    if (!response.ok) {
+      throw new Error(`Whisper Transcription Failed: ${response.status} ${(await response.text()).substring(0, 200)}`);
+    }
+
+    // Servers that ignore response_format return plain text or { text }
+    const raw = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      recordUsage({ provider: 'whisper', model: settings.modelName, audioSeconds: audioDurationSeconds(audio.data, audio.mimeType) }, context);
+      return { text: raw.trim() };
+    }
+
+    const segments: TranscriptSegment[] | undefined = Array.isArray(data.segments)
+      ? data.segments.map((s: any) => ({
+        start: Number(s.start) || 0,
+        end: Number(s.end) || 0,
+        text: String(s.text || '').trim()
+      }))
+      : undefined;
+
+    recordUsage({
+      provider: 'whisper',
+      model: settings.modelName,
+      audioSeconds: Number(data.duration) || segments?.[segments.length - 1]?.end || audioDurationSeconds(audio.data, audio.mimeType)
+    }, context);
+
+    return {
+      text: String(data.text || '').trim(),
+      segments,
+      language: data.language
+    };
+  },
+};
@@ -0,0 +1,302 @@
+import { HolisticRating, STARQuotes, STARResult, TranscriptSpeaker, TranscriptTurn } from "../types";
+
+/**
+ * Runtime validators for model JSON. Each validator coerces what it safely can
+ * (numbers as strings, nested text objects, out-of-range ratings) and reports
+ * the rest as issues, which the service sends back to the model for one repair.
+ */
+
+// A validation passes when it has no issues; value is only set in that case
+export interface Validated<T> {
+  value?: T;
+  issues: string[];
+}
+
+const pass = <T>(value: T): Validated<T> => ({ value, issues: [] });
+const fail = <T>(...issues: string[]): Validated<T> => ({ issues });
+
+const STAR_FIELDS: (keyof STARResult)[] = ['situation', 'task', 'action', 'result'];
+
+const isObject = (val: any): val is Record<string, any> => !!val && typeof val === 'object' && !Array.isArray(val);
+
+/**
+ * Coerces a model value into display text, or null if it cannot be read as text.
+ */
+const coerceText = (val: any): string | null => {
+  if (val === null || val === undefined) return '';
+  if (typeof val === 'string') return val.trim();
+  if (typeof val === 'number' || typeof val === 'boolean') return String(val);
+  if (Array.isArray(val)) {
+    const parts = val.map(coerceText);
+    return parts.some(p => p === null) ? null : parts.filter(Boolean).join(' ');
+  }
+  if (isObject(val)) {
+    // Models sometimes nest the text one level down
+    const nested = val.text ?? val.content ?? val.value ?? val.description;
+    return nested !== undefined ? coerceText(nested) : null;
+  }
+  return null;
+};
+
+export const validateSTAR = (raw: any, path = 'starUpdate'): Validated<STARResult> => {
+  if (!isObject(raw)) {
+    return fail(`"${path}" must be an object with situation, task, action and result`);
+  }
+
+  const issues: string[] = [];
+  const star = { situation: '', task: '', action: '', result: '' } as STARResult;
+  STAR_FIELDS.forEach(field => {
+    const text = coerceText(raw[field]);
+    if (text === null) {
+      issues.push(`"${path}.${field}" must be a string`);
+    } else {
+      star[field] = text;
+    }
+  });
+
+  return issues.length ? fail(...issues) : pass(star);
+};
+
+export const validateProbes = (raw: any, path = 'probingQuestions'): Validated<string[]> => {
+  if (raw === null || raw === undefined) return pass([]);
+  if (typeof raw === 'string') return pass(raw.trim() ? [raw.trim()] : []);
+  if (!Array.isArray(raw)) {
+    return fail(`"${path}" must be an array of strings`);
+  }
+
+  const probes = raw.map(coerceText);
+  if (probes.some(p => p === null)) {
+    return fail(`"${path}" must only contain strings`);
+  }
+  return pass((probes as string[]).filter(Boolean));
+};
+
+/**
+ * Ratings are clamped to the 1–4 BARS scale and rounded to whole levels.
+ */
+export const validateRating = (raw: any, path = 'rating'): Validated<number> => {
+  const num = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    return fail(`"${path}" must be a number from 1 to 4`);
+  }
+  return pass(Math.min(4, Math.max(1, Math.round(num))));
+};
+
+const collect = (...results: Validated<any>[]): string[] => results.flatMap(r => r.issues);
+
+/**
+ * Reads the quotes cited per STAR field. Citations are advisory: malformed or
+ * missing ones are dropped rather than sent back for repair, and the local
+ * verifier flags any claim left without a quote.
+ */
+export const readQuotes = (raw: any): STARQuotes => {
+  const quotes: STARQuotes = {};
+  if (!isObject(raw)) return quotes;
+  STAR_FIELDS.forEach(field => {
+    const list = validateProbes(raw[field]);
+    if (list.value?.length) quotes[field] = list.value;
+  });
+  return quotes;
+};
+
+export const validateAnalysisResponse = (raw: any): Validated<{ starUpdate: STARResult; probingQuestions: string[]; quotes: STARQuotes }> => {
+  if (!isObject(raw)) return fail("Response must be a JSON object");
+
+  const star = validateSTAR(raw.starUpdate);
+  const probes = validateProbes(raw.probingQuestions);
+  if (star.issues.length || probes.issues.length) return fail(...collect(star, probes));
+
+  return pass({ starUpdate: star.value, probingQuestions: probes.value, quotes: readQuotes(raw.citations) });
+};
+
+// A turn as the model reports it; the caller adds ids, timing and source
+export type ReportedTurn = Pick<TranscriptTurn, 'speaker' | 'text' | 'originalText'>;
+
+const SPEAKERS: TranscriptSpeaker[] = ['candidate', 'interviewer'];
+
+/**
+ * Validates a transcript returned as turns. Unrecognized speakers are kept as
+ * "unknown" rather than failing, since the text is what matters for analysis.
+ */
+export const validateTurns = (raw: any, path = 'turns'): Validated<ReportedTurn[]> => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return fail(`"${path}" must be a non-empty array of { speaker, text }`);
+  }
+
+  const issues: string[] = [];
+  const turns: ReportedTurn[] = [];
+  raw.forEach((entry, i) => {
+    const text = isObject(entry) ? coerceText(entry.text) : coerceText(entry);
+    if (!text) {
+      issues.push(`"${path}[${i}].text" must be a non-empty string`);
+      return;
+    }
+    const speaker = String(isObject(entry) ? entry.speaker || '' : '').trim().toLowerCase() as TranscriptSpeaker;
+    const originalText = isObject(entry) ? coerceText(entry.originalText) : null;
+    turns.push({
+      speaker: SPEAKERS.includes(speaker) ? speaker : 'unknown',
+      text,
+      ...(originalText ? { originalText } : {})
+    });
+  });
+
+  return issues.length ? fail(...issues) : pass(turns);
+};
+
+export const validateRegenerateResponse = (raw: any): Validated<{ turns: ReportedTurn[]; starUpdate: STARResult; probingQuestions: string[]; quotes: STARQuotes }> => {
+  if (!isObject(raw)) return fail("Response must be a JSON object");
+
+  // Custom templates written before turns may still ask for a single transcript string
+  const legacyTranscript = raw.turns === undefined ? coerceText(raw.transcript) : null;
+  const turns = legacyTranscript
+    ? pass<ReportedTurn[]>([{ speaker: 'unknown', text: legacyTranscript }])
+    : validateTurns(raw.turns);
+  const star = validateSTAR(raw.starUpdate);
+  const probes = validateProbes(raw.probingQuestions);
+  const issues = collect(turns, star, probes);
+  if (issues.length) return fail(...issues);
+
+  return pass({
+    turns: turns.value,
+    starUpdate: star.value,
+    probingQuestions: probes.value,
+    quotes: readQuotes(raw.citations)
+  });
+};
+
+/**
+ * Reads the rationale, confidence and insufficient-evidence flag of a rating.
+ * Like citations they explain rather than decide, so missing or malformed
+ * values are left out instead of failing the rating.
+ */
+const readRationale = (raw: Record<string, any>): Pick<HolisticRating, 'rationale' | 'confidence' | 'insufficientEvidence'> => {
+  const value: Pick<HolisticRating, 'rationale' | 'confidence' | 'insufficientEvidence'> = {};
+
+  if (isObject(raw.rationale)) {
+    const matchedAnchor = coerceText(raw.rationale.matchedAnchor);
+    if (matchedAnchor) {
+      value.rationale = {
+        matchedAnchor,
+        lowerRejected: coerceText(raw.rationale.lowerRejected) || '',
+        higherRejected: coerceText(raw.rationale.higherRejected) || ''
+      };
+    }
+  } else if (typeof raw.rationale === 'string' && raw.rationale.trim()) {
+    value.rationale = { matchedAnchor: raw.rationale.trim(), lowerRejected: '', higherRejected: '' };
+  }
+
+  const confidence = typeof raw.confidence === 'string' ? parseFloat(raw.confidence) : raw.confidence;
+  if (typeof confidence === 'number' && Number.isFinite(confidence)) {
+    // Some models answer in percent
+    value.confidence = Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence));
+  }
+
+  if (typeof raw.insufficientEvidence === 'boolean') value.insufficientEvidence = raw.insufficientEvidence;
+  else if (raw.insufficientEvidence === 'true' || raw.insufficientEvidence === 'false') value.insufficientEvidence = raw.insufficientEvidence === 'true';
+
+  return value;
+};
+
+/**
+ * Validates one { starEvidence, rating } object, e.g. a per-parameter reduce response.
+ */
+export const validateHolisticRating = (raw: any, path?: string): Validated<HolisticRating> => {
+  if (!isObject(raw)) return fail(`"${path || 'response'}" must be an object with starEvidence and rating`);
+
+  const prefix = path ? `${path}.` : '';
+  const star = validateSTAR(raw.starEvidence, `${prefix}starEvidence`);
+  const rating = validateRating(raw.rating, `${prefix}rating`);
+  if (star.issues.length || rating.issues.length) return fail(...collect(star, rating));
+
+  return pass({ starEvidence: star.value, rating: rating.value, quotes: readQuotes(raw.citations), ...readRationale(raw) });
+};
+
+/**
+ * Validates the id → evidence[] map extracted from one transcript chunk.
+ * Every rubric id is present in the result; skipped parameters get no evidence.
+ */
+export const validateEvidenceMap = (raw: any, rubricIds: string[]): Validated<Record<string, string[]>> => {
+  if (!isObject(raw)) return fail("Response must be a JSON object keyed by parameter id");
+
+  const issues: string[] = [];
+  const value: Record<string, string[]> = {};
+  rubricIds.forEach(id => {
+    const evidence = validateProbes(raw[id], id);
+    if (evidence.issues.length) issues.push(...evidence.issues);
+    else value[id] = evidence.value;
+  });
+
+  return issues.length ? fail(...issues) : pass(value);
+};
+
+/**
+ * Validates the holistic id → { starEvidence, rating } map.
+ * Ids outside the rubric are dropped; parameters the model skipped are simply absent.
+ */
+export const validateHolisticResponse = (raw: any, rubricIds: string[]): Validated<Record<string, HolisticRating>> => {
+  if (!isObject(raw)) return fail("Response must be a JSON object keyed by parameter id");
+
+  const issues: string[] = [];
+  const value: Record<string, HolisticRating> = {};
+
+  rubricIds.forEach(id => {
+    const entry = raw[id];
+    if (entry === undefined) return;
+    const rating = validateHolisticRating(entry, id);
+    if (rating.issues.length) {
+      issues.push(...rating.issues);
+      return;
+    }
+    value[id] = rating.value;
+  });
+
+  if (!issues.length && Object.keys(value).length === 0) {
+    issues.push(`No parameter ids matched. Expected keys: ${rubricIds.join(', ')}`);
+  }
+
+  return issues.length ? fail(...issues) : pass(value);
+};
+
+// --- Streaming ---
+
+export interface PartialAnalysis {
+  starUpdate: Partial<STARResult>;
+  probingQuestions: string[];
+}
+
+/**
+ * Lenient readers for streamed, still-incomplete JSON. They never report
+ * issues; they keep whatever is already readable so the UI can render early.
+ */
+const readPartialSTAR = (raw: any): Partial<STARResult> => {
+  const star: Partial<STARResult> = {};
+  if (!isObject(raw)) return star;
+  STAR_FIELDS.forEach(field => {
+    const text = coerceText(raw[field]);
+    if (text) star[field] = text;
+  });
+  return star;
+};
+
+export const readPartialAnalysis = (raw: any): PartialAnalysis => {
+  const probes = Array.isArray(raw?.probingQuestions) ? raw.probingQuestions.map(coerceText) : [];
+  return {
+    starUpdate: readPartialSTAR(raw?.starUpdate),
+    probingQuestions: probes.filter((p: string | null): p is string => !!p)
+  };
+};
+
+export const readPartialHolistic = (raw: any, rubricIds: string[]): Record<string, Partial<HolisticRating>> => {
+  const value: Record<string, Partial<HolisticRating>> = {};
+  if (!isObject(raw)) return value;
+  rubricIds.forEach(id => {
+    const entry = raw[id];
+    if (!isObject(entry)) return;
+    const rating = validateRating(entry.rating);
+    value[id] = {
+      starEvidence: readPartialSTAR(entry.starEvidence) as STARResult,
+      ...(rating.issues.length ? {} : { rating: rating.value })
+    };
+  });
+  return value;
+};
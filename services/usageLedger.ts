@@ -0,0 +1,159 @@
+import { AIProvider, ModelPrice, UsageEntry } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../data/modelPrices";
+import type { RequestContext } from "./providers/registry";
+
+/**
+ * Cumulative record of billable AI calls across sessions, stored in localStorage.
+ * Providers report usage as responses arrive; cost is estimated at read time so
+ * price changes in Settings apply to the whole history.
+ */
+
+const STORAGE_KEY = 'bars_usage_ledger';
+const MAX_ENTRIES = 5000; // Oldest entries are dropped beyond this
+
+export interface UsageReport {
+  provider: AIProvider;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  reportedCost?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  cost: number;
+  unpricedCalls: number; // Calls for models without a known price (counted as $0)
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byParameter: Record<string, UsageTotals>; // Keyed by rubric item id; '' = whole-session calls
+}
+
+// Set by InterviewContext so providers don't need to know about sessions
+let activeSessionId = '';
+const listeners = new Set<() => void>();
+
+export const setUsageSession = (sessionId: string) => {
+  activeSessionId = sessionId;
+};
+
+export const getUsageLedger = (): UsageEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to parse usage ledger:", e);
+    return [];
+  }
+};
+
+const saveLedger = (entries: UsageEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  listeners.forEach(listener => listener());
+};
+
+export const getSessionUsage = (sessionId: string): UsageEntry[] => {
+  return getUsageLedger().filter(entry => entry.sessionId === sessionId);
+};
+
+/**
+ * Records one call against the active session and, when the call concerns a
+ * single parameter, against that rubric item.
+ */
+export const recordUsage = (report: UsageReport, context?: RequestContext) => {
+  const inputTokens = report.inputTokens || 0;
+  const outputTokens = report.outputTokens || 0;
+  if (!inputTokens && !outputTokens && !report.audioSeconds && !report.reportedCost) return;
+
+  const ids = context?.rubricItemIds;
+  const entry: UsageEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    sessionId: activeSessionId,
+    rubricItemId: ids?.length === 1 ? ids[0] : undefined,
+    task: context?.task || 'transcribe',
+    provider: report.provider,
+    model: report.model,
+    inputTokens,
+    outputTokens,
+    audioSeconds: report.audioSeconds,
+    reportedCost: report.reportedCost
+  };
+
+  try {
+    saveLedger([...getUsageLedger(), entry]);
+  } catch (e) {
+    console.error("Failed to save usage entry:", e);
+  }
+};
+
+export const clearUsageLedger = () => {
+  saveLedger([]);
+};
+
+/**
+ * Calls the listener whenever an entry is recorded. Returns an unsubscribe function.
+ */
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getModelPrice = (model: string, prices?: Record<string, ModelPrice>): ModelPrice | undefined => {
+  return prices?.[model] || DEFAULT_MODEL_PRICES[model];
+};
+
+/**
+ * USD cost of one call, or null when the model has no known price.
+ */
+export const estimateCost = (entry: UsageEntry, prices?: Record<string, ModelPrice>): number | null => {
+  if (entry.reportedCost !== undefined) return entry.reportedCost;
+  const price = getModelPrice(entry.model, prices);
+  if (!price) return null;
+  return (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1_000_000
+    + ((entry.audioSeconds || 0) / 60) * (price.audioPerMinute || 0);
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0, unpricedCalls: 0 });
+
+const addTo = (totals: UsageTotals, entry: UsageEntry, cost: number | null) => {
+  totals.calls++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.audioSeconds += entry.audioSeconds || 0;
+  totals.cost += cost || 0;
+  if (cost === null) totals.unpricedCalls++;
+};
+
+export const summarizeUsage = (entries: UsageEntry[], prices?: Record<string, ModelPrice>): UsageSummary => {
+  const summary: UsageSummary = { ...emptyTotals(), byModel: {}, byParameter: {} };
+
+  entries.forEach(entry => {
+    const cost = estimateCost(entry, prices);
+    const parameterKey = entry.rubricItemId || '';
+    addTo(summary, entry, cost);
+    addTo(summary.byModel[entry.model] ||= emptyTotals(), entry, cost);
+    addTo(summary.byParameter[parameterKey] ||= emptyTotals(), entry, cost);
+  });
+
+  return summary;
+};
+
+/**
+ * Formats a USD amount, keeping precision for the sub-cent costs of single calls.
+ */
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number): string => {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+};
@@ -17,15 +17,198 @@ export interface STARResult {
   result: string;
 }
 
+// Verbatim quotes a model cites for each STAR field, before they are located in a transcript
+export type STARQuotes = Partial<Record<keyof STARResult, string[]>>;
+
+// A quote backing a STAR field, located in the rendered transcript of InterviewResult.turns
+export interface EvidenceCitation {
+  quote: string;
+  start: number; // Character offsets into the transcript; -1 when the quote was not found
+  end: number;
+  verified: boolean; // The quote (or a close match) appears in the transcript
+  similarity: number; // 0-1, 1 = exact match
+  rubricItemId?: string; // Set when the quote is in another parameter's transcript
+}
+
+export type STARCitations = Partial<Record<keyof STARResult, EvidenceCitation[]>>;
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+}
+
+export type TranscriptSpeaker = 'candidate' | 'interviewer' | 'unknown';
+
+// One speaker's stretch of a diarized recording
+export interface SpeakerTurn {
+  speaker: TranscriptSpeaker;
+  text: string;
+  start?: number; // Seconds from the start of the recording, when the engine reports timing
+  end?: number;
+  segments?: TranscriptSegment[];
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments?: TranscriptSegment[];
+  language?: string; // Detected language code, when the provider reports it
+  turns?: SpeakerTurn[]; // Speaker-labelled split of text, when diarization was requested and supported
+}
+
+// How a turn entered the transcript
+export type TurnSource =
+  | 'batch'      // Recorded and transcribed after stopping
+  | 'live'       // Transcribed while recording
+  | 'import'     // Transcribed from an audio or video file recorded elsewhere
+  | 'manual'     // Typed by the interviewer
+  | 'probe'      // Probing question suggested by the analysis
+  | 'regenerate' // Re-transcribed from all recordings of the parameter
+  | 'legacy';    // Migrated from a transcript saved as a single string
+
+// One speaker's uninterrupted contribution to the dialogue
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string; // In English; analysis and citations run on this
+  originalText?: string; // As spoken, when the turn was translated
+  language?: string; // Spoken language (ISO-639-1), when known
+  startedAt: number; // Epoch ms; 0 when unknown (migrated turns)
+  duration?: number; // Seconds of recorded audio
+  audioOffset?: number; // Seconds into the recording where the turn starts; estimated when the engine reports no timing
+  segments?: TranscriptSegment[]; // Timed pieces of the turn as spoken, when the engine reports them
+  audioKey?: number; // Key of the recording in the IndexedDB audio backup
+  liveChunks?: (string | null)[]; // Text of each live chunk while some (null) wait in the offline backlog
+  source: TurnSource;
+}
+
 export interface InterviewResult {
-  transcript: string; // The full dialogue for this parameter
+  turns: TranscriptTurn[]; // The dialogue for this parameter, in order
   starEvidence?: STARResult;
   rating: number;
   isEdited: boolean;
   notes?: string; // Interviewer notes for this parameter
+  promptVersion?: string; // Prompt templates behind the latest AI update, e.g. "system/default@1+analyze/custom@2"
+  citations?: STARCitations; // Quotes backing each STAR field; absent for results analyzed before citations existed
+  consensus?: ConsensusResult; // Latest multi-model rating comparison
+  rationale?: RatingRationale; // Why the AI chose the rating
+  confidence?: number; // 0-1, the AI's confidence in the rating
+  insufficientEvidence?: boolean; // The transcript does not contain enough evidence to rate reliably
+}
+
+// Anchor-by-anchor justification for a rating
+export interface RatingRationale {
+  matchedAnchor: string; // How the evidence matches the chosen level's anchor
+  lowerRejected: string; // Why the level below was rejected ("" at level 1)
+  higherRejected: string; // Why the level above was rejected ("" at level 4)
+}
+
+// A provider/model pair taking part in consensus ratings
+export interface ConsensusModel {
+  provider: AIProvider;
+  modelName: string;
+}
+
+// One model's holistic rating of a parameter in a consensus run
+export interface ConsensusVote extends ConsensusModel {
+  rating?: number; // Absent when the model failed or skipped the parameter
+  starEvidence?: STARResult;
+  error?: string;
 }
 
-export type AIProvider = 'google' | 'openrouter' | 'sarvam';
+export interface ConsensusResult {
+  votes: ConsensusVote[];
+  median: number; // May fall between levels (e.g. 2.5) with an even number of votes
+  suggestedRating: number; // Median rounded half up to a rubric level
+  spread: number; // Highest minus lowest rating
+  agreement: number; // 0-1 share of votes equal to the suggested rating
+  needsReview: boolean; // Models disagree enough that a human should decide
+  runAt: number;
+}
+
+// One parameter's entry in the holistic (whole-interview) analysis
+export interface HolisticRating {
+  starEvidence: STARResult;
+  rating: number; // 1-4
+  quotes?: STARQuotes;
+  rationale?: RatingRationale;
+  confidence?: number;
+  insufficientEvidence?: boolean;
+}
+
+/**
+ * Canned model outputs for one rubric item, used by the offline replay provider.
+ * Lists are consumed in order (one entry per call) and the last entry repeats.
+ */
+export interface ReplayFixture {
+  transcripts: string[];
+  starUpdates?: STARResult[];
+  probingQuestions?: string[][];
+  holistic?: HolisticRating;
+}
+
+export interface ReplayBundle {
+  name: string;
+  fixtures: Record<string, ReplayFixture>; // Keyed by rubric item id
+  fallback?: ReplayFixture; // Used for rubric items without a fixture
+}
+
+export type BuiltInAIProvider = 'google' | 'openrouter' | 'sarvam' | 'selfhosted' | 'whisper' | 'replay';
+
+// Open union: additional providers can be registered at runtime (see services/providers).
+export type AIProvider = BuiltInAIProvider | (string & {});
+
+export type PromptTemplateId = 'systemInstruction' | 'analyze' | 'holistic' | 'holisticExtract' | 'holisticReduce' | 'masterTranscript' | 'regenerate' | 'translate';
+
+// Templates scoped to one rubric item, which can be overridden per item
+export type ItemPromptTemplateId = 'systemInstruction' | 'analyze' | 'regenerate';
+
+// A user-edited prompt template; version increments on every save
+export interface CustomPromptTemplate {
+  text: string;
+  version: number;
+  updatedAt: number;
+}
+
+// What an AI call is for; recorded in the usage ledger and used by fixture-driven providers
+export type AITask = 'transcribe' | 'translate' | 'analyze' | 'holistic' | 'holisticExtract' | 'holisticReduce' | 'masterTranscript' | 'regenerate';
+
+// USD prices for one model. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  audioPerMinute?: number; // For speech-to-text engines billed by duration
+}
+
+// One billable AI call, kept in a cumulative ledger across sessions
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  sessionId: string;
+  rubricItemId?: string; // Unset for calls spanning several parameters
+  task: AITask;
+  provider: AIProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds?: number;
+  reportedCost?: number; // Actual USD charge, when the provider reports it (OpenRouter)
+}
+
+export interface ProviderCapabilities {
+  transcription: boolean;     // Speech-to-text for a single recording
+  textAnalysis: boolean;      // STAR extraction, probing questions and ratings
+  multiAudioInput: boolean;   // Several recordings in one request (regenerate, master transcript)
+  structuredOutput: boolean;  // Native JSON-schema constrained responses
+}
+
+// How live mode cuts the microphone stream into chunks at pauses in speech
+export interface LiveSegmentation {
+  thresholdDb: number; // Level (dBFS) above which a frame counts as speech
+  hangoverMs: number; // Silence after speech before the utterance is cut
+  minChunkMs: number; // Shorter utterances are held and sent with the next one
+  maxChunkMs: number; // Longer speech is cut even without a pause
+}
 
 export interface AppSettings {
   provider: AIProvider;
@@ -35,6 +218,26 @@ export interface AppSettings {
   openRouterApiKey?: string;
   googleApiKey?: string;
   sarvamApiKey?: string;
+  // Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio)
+  selfHostedBaseUrl?: string;
+  selfHostedApiKey?: string; // Optional, sent as a Bearer token
+  selfHostedModels?: string[];
+  // Speech-to-text, selectable independently of the analysis provider (defaults to `provider`)
+  transcriptionProvider?: AIProvider;
+  transcriptionModelName?: string;
+  liveTranscriptionProvider?: AIProvider; // Engine for live mode, e.g. a streaming-friendly fallback (defaults to transcriptionProvider)
+  liveTranscriptionModelName?: string;
+  transcriptionLanguage?: string; // Spoken language of the session (ISO-639-1, e.g. 'en' or 'hi'). Empty = auto-detect
+  liveSegmentation?: Partial<LiveSegmentation>; // Overrides of the default live chunking
+  audioInputDeviceId?: string; // Microphone for recordings; empty = browser default
+  // Whisper-compatible /v1/audio/transcriptions server (whisper.cpp, faster-whisper)
+  whisperBaseUrl?: string;
+  whisperApiKey?: string;
+  replayBundle?: ReplayBundle; // Custom fixtures for the offline replay provider (defaults to the demo bundle)
+  modelPrices?: Record<string, ModelPrice>; // Overrides for cost estimates, keyed by model name
+  promptTemplates?: Partial<Record<PromptTemplateId, CustomPromptTemplate>>; // Global overrides of the default prompts
+  rubricPromptOverrides?: Record<string, Partial<Record<ItemPromptTemplateId, CustomPromptTemplate>>>; // Keyed by rubric item id
+  consensusModels?: ConsensusModel[]; // Models compared by the consensus rating on the summary screen
   isAuthenticated?: boolean;
 }
 
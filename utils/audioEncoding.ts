@@ -0,0 +1,178 @@
+import { encodeOggOpus } from './oggOpus';
+import { frameLevelDb } from './voiceSegmenter';
+
+/**
+ * Client-side preparation of recordings for upload. Speech engines only need
+ * 16 kHz mono, so recordings are decoded, downmixed and resampled, then
+ * compressed to Opus and, when an engine limits clip length, split at pauses.
+ */
+
+export const UPLOAD_SAMPLE_RATE = 16000;
+
+const SPLIT_WINDOW_MS = 100; // Resolution of the search for a quiet place to cut
+const SPLIT_SEARCH = 0.2; // Look for a pause in the last fifth of each piece
+
+export interface EncodedAudio {
+  blob: Blob;
+  mimeType: string;
+  offset: number; // Seconds into the original recording
+  duration?: number; // Unknown when the browser could not decode the recording
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes mono samples as 16-bit PCM WAV.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate = UPLOAD_SAMPLE_RATE): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // Format chunk length
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(view, 36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0, offset = 44; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+/**
+ * Decodes a recording to mono samples at the given rate. Decoding through an
+ * offline context at that rate does the resampling.
+ */
+export const decodeToMono = async (blob: Blob, sampleRate = UPLOAD_SAMPLE_RATE): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+  if (decoded.numberOfChannels === 1) return decoded.getChannelData(0);
+
+  const mono = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / decoded.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Splits samples into pieces of at most maxSeconds, each cut at the quietest
+ * moment near its end so words are not cut in two.
+ */
+export const splitAtPauses = (samples: Float32Array, sampleRate: number, maxSeconds: number): { samples: Float32Array; offset: number }[] => {
+  const max = Math.floor(maxSeconds * sampleRate);
+  const window = Math.round(sampleRate * SPLIT_WINDOW_MS / 1000);
+  const pieces: { samples: Float32Array; offset: number }[] = [];
+
+  let start = 0;
+  while (samples.length - start > max) {
+    let cut = start + max;
+    let quietest = Infinity;
+    for (let pos = start + Math.floor(max * (1 - SPLIT_SEARCH)); pos + window <= start + max; pos += window) {
+      const level = frameLevelDb(samples.subarray(pos, pos + window));
+      if (level < quietest) {
+        quietest = level;
+        cut = pos + Math.floor(window / 2);
+      }
+    }
+    pieces.push({ samples: samples.subarray(start, cut), offset: start / sampleRate });
+    start = cut;
+  }
+  pieces.push({ samples: samples.subarray(start), offset: start / sampleRate });
+  return pieces;
+};
+
+/**
+ * Re-encodes a recording for upload: 16 kHz mono Opus (WAV where the browser
+ * has no Opus encoder), in pieces of at most maxSeconds. An audio recording
+ * the browser cannot decode, or one that would not get smaller, is passed
+ * through; a video the browser cannot decode is refused.
+ */
+export const compressForUpload = async (blob: Blob, mimeType: string, maxSeconds = Infinity): Promise<EncodedAudio[]> => {
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(blob);
+  } catch (err) {
+    if (!mimeType.startsWith('audio/')) {
+      // Speech-to-text engines take audio only; a video container has to be decoded here
+      throw new Error(`This browser could not read the audio track of the ${mimeType} file. Convert it to an audio file (e.g. MP3 or M4A) and import that.`);
+    }
+    console.warn('[Audio] Could not decode recording; uploading it as recorded:', err);
+    return [{ blob, mimeType, offset: 0 }];
+  }
+
+  const pieces = splitAtPauses(samples, UPLOAD_SAMPLE_RATE, maxSeconds);
+  const encoded: EncodedAudio[] = [];
+  for (const piece of pieces) {
+    const duration = piece.samples.length / UPLOAD_SAMPLE_RATE;
+    const compressed = await encodeOggOpus(piece.samples, UPLOAD_SAMPLE_RATE).catch(() => null) || encodeWav(piece.samples);
+    if (pieces.length === 1 && compressed.size >= blob.size) {
+      encoded.push({ blob, mimeType, offset: 0, duration });
+    } else {
+      encoded.push({ blob: compressed, mimeType: compressed.type, offset: piece.offset, duration });
+    }
+  }
+  return encoded;
+};
+
+// Types for files whose type the browser leaves blank (common for .m4a, .opus, .mkv)
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  weba: 'audio/webm',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+};
+
+// Imported files are stored in IndexedDB and decoded whole in memory
+export const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+
+export const IMPORT_ACCEPT = ['audio/*', 'video/*', ...Object.keys(MEDIA_TYPES_BY_EXTENSION).map(ext => `.${ext}`)].join(',');
+
+/**
+ * Returns an imported file as a Blob with a media type, inferred from the
+ * extension when the browser did not set one.
+ */
+export const withMediaType = (file: File): Blob => {
+  if (file.type) return file;
+  const type = MEDIA_TYPES_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() || ''];
+  return type ? new Blob([file], { type }) : file;
+};
+
+/**
+ * Reads the duration of an audio or video file from its metadata.
+ */
+export const mediaDurationSeconds = (blob: Blob): Promise<number | undefined> => new Promise(resolve => {
+  const url = URL.createObjectURL(blob);
+  const media = document.createElement('video'); // Plays audio-only files too
+  const done = (duration?: number) => {
+    URL.revokeObjectURL(url);
+    resolve(duration !== undefined && isFinite(duration) ? duration : undefined);
+  };
+  media.preload = 'metadata';
+  media.onloadedmetadata = () => done(media.duration);
+  media.onerror = () => done();
+  media.src = url;
+});
@@ -0,0 +1,99 @@
+import { frameLevelDb } from './voiceSegmenter';
+
+/**
+ * Microphone selection and input monitoring. Recordings use the device chosen
+ * in Settings; while recording, the input level is watched so a muted or
+ * overdriven microphone is noticed before the answer is lost.
+ */
+
+const SILENCE_DB = -60; // Below this the input is treated as silent (a muted mic reads ≈ -100)
+const SILENCE_ALARM_MS = 5000;
+const CLIP_PEAK = 0.99; // Sample magnitude treated as clipped
+const CLIPPING_ALARM_MS = 3000; // Sustained clipping, not a single loud syllable
+const CLIP_GAP_MS = 1000; // Clipping this far apart counts as separate bursts
+const POLL_MS = 100;
+
+export type InputAlarm = 'silent' | 'clipping';
+
+export interface InputLevel {
+  db: number; // RMS level in dBFS over the last poll
+  peak: number; // Largest sample magnitude, 0-1
+  alarm: InputAlarm | null;
+}
+
+export const INPUT_ALARM_MESSAGES: Record<InputAlarm, string> = {
+  silent: 'No sound from the microphone for several seconds. Check that it is not muted.',
+  clipping: 'The input has been clipping for several seconds. Lower the gain or move the microphone away.',
+};
+
+/**
+ * Audio constraints for getUserMedia. A chosen device is required exactly, so
+ * an unplugged headset fails loudly instead of recording from another mic.
+ */
+export const audioConstraints = (deviceId?: string, extra: MediaTrackConstraints = {}): MediaTrackConstraints => ({
+  ...extra,
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {})
+});
+
+export const listAudioInputs = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+export const describeMicError = (err: any): string => {
+  if (err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError') {
+    return 'The selected microphone is not available. Choose another one in Settings.';
+  }
+  return 'Microphone access denied. Please check browser permissions.';
+};
+
+/**
+ * Turns a stream of level readings into silence and clipping alarms.
+ */
+export const createInputAlarm = () => {
+  let silentSince = 0;
+  let clipSince = 0;
+  let lastClipAt = 0;
+
+  return (db: number, peak: number, now: number): InputAlarm | null => {
+    silentSince = db < SILENCE_DB ? silentSince || now : 0;
+
+    if (peak >= CLIP_PEAK) {
+      if (!clipSince || now - lastClipAt > CLIP_GAP_MS) clipSince = now;
+      lastClipAt = now;
+    } else if (now - lastClipAt > CLIP_GAP_MS) {
+      clipSince = 0;
+    }
+
+    if (silentSince && now - silentSince >= SILENCE_ALARM_MS) return 'silent';
+    if (clipSince && now - clipSince >= CLIPPING_ALARM_MS) return 'clipping';
+    return null;
+  };
+};
+
+/**
+ * Reports the level of a stream every POLL_MS until the returned function is called.
+ */
+export const monitorInputLevel = (stream: MediaStream, onLevel: (level: InputLevel) => void): (() => void) => {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const alarm = createInputAlarm();
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    const db = frameLevelDb(samples);
+    onLevel({ db, peak, alarm: alarm(db, peak, Date.now()) });
+  }, POLL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    source.disconnect();
+    audioContext.close();
+  };
+};
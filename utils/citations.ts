@@ -0,0 +1,233 @@
+import { EvidenceCitation, InterviewResult, STARCitations, STARQuotes, STARResult } from "../types";
+
+/**
+ * Locates model-cited quotes in a transcript so every STAR claim can be traced
+ * back to what the candidate actually said. Matching is word-based and fuzzy:
+ * casing, punctuation and small transcription differences are tolerated.
+ */
+
+// Minimum word-level similarity for a quote to count as found
+const MATCH_THRESHOLD = 0.8;
+// Windows sharing fewer words than this are not compared in detail
+const CANDIDATE_OVERLAP = 0.6;
+const MAX_CANDIDATES = 8;
+
+const STAR_FIELDS: (keyof STARResult)[] = ['situation', 'task', 'action', 'result'];
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push({ word: match[0].toLowerCase().replace('’', "'"), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+/**
+ * Word-level edit distance between the quote and a transcript window.
+ */
+const wordDistance = (quote: Token[], window: Token[]): number => {
+  let previous = Array.from({ length: window.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= quote.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= window.length; j++) {
+      const cost = quote[i - 1].word === window[j - 1].word ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[window.length];
+};
+
+interface QuoteMatch {
+  start: number;
+  end: number;
+  similarity: number;
+}
+
+/**
+ * Best match for the quote in the tokenized transcript. A sliding bag-of-words
+ * count picks candidate windows cheaply; only those get an edit-distance check.
+ */
+const matchTokens = (tokens: Token[], quote: Token[]): QuoteMatch | null => {
+  const length = quote.length;
+  if (!length || !tokens.length) return null;
+
+  const needed = new Map<string, number>();
+  quote.forEach(token => needed.set(token.word, (needed.get(token.word) || 0) + 1));
+
+  const counts = new Map<string, number>();
+  const candidates: { index: number; overlap: number }[] = [];
+  let overlap = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const added = tokens[i].word;
+    if (needed.has(added)) {
+      const count = (counts.get(added) || 0) + 1;
+      counts.set(added, count);
+      if (count <= needed.get(added)!) overlap++;
+    }
+    if (i >= length) {
+      const removed = tokens[i - length].word;
+      if (needed.has(removed)) {
+        const count = counts.get(removed)!;
+        if (count <= needed.get(removed)!) overlap--;
+        counts.set(removed, count - 1);
+      }
+    }
+    if (i >= length - 1 || i === tokens.length - 1) {
+      candidates.push({ index: Math.max(0, i - length + 1), overlap });
+    }
+  }
+
+  const shortlist = candidates
+    .filter(c => c.overlap / length >= CANDIDATE_OVERLAP)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, MAX_CANDIDATES);
+
+  // Windows may be up to ~20% shorter or longer than the quote (dropped or added words)
+  const minSize = Math.max(1, Math.floor(length * 0.8) - 1);
+  const maxSize = Math.ceil(length * 1.2) + 1;
+
+  let best: QuoteMatch | null = null;
+  for (const { index } of shortlist) {
+    for (let start = Math.max(0, index - 1); start <= index + length - minSize; start++) {
+      for (let size = minSize; size <= maxSize; size++) {
+        if (start + size > tokens.length) continue;
+        const window = tokens.slice(start, start + size);
+        const similarity = 1 - wordDistance(quote, window) / Math.max(length, size);
+        if (!best || similarity > best.similarity) {
+          best = { start: window[0].start, end: window[window.length - 1].end, similarity };
+        }
+      }
+    }
+  }
+
+  return best && best.similarity >= MATCH_THRESHOLD ? best : null;
+};
+
+/**
+ * Finds a quote in a transcript. Returns character offsets and a 0-1 similarity, or null.
+ */
+export const locateQuote = (transcript: string, quote: string): QuoteMatch | null => {
+  return matchTokens(tokenize(transcript), tokenize(quote));
+};
+
+export interface CitationSource {
+  rubricItemId: string;
+  transcript: string;
+}
+
+/**
+ * Turns cited quotes into citations with offsets into the parameter's transcript.
+ * Quotes not found there are looked up in the other sources (e.g. other
+ * parameters' transcripts in a holistic analysis) before being marked unverified.
+ */
+export const verifyQuotes = (quotes: STARQuotes | undefined, transcript: string, others: CitationSource[] = []): STARCitations => {
+  const citations: STARCitations = {};
+  if (!quotes) return citations;
+
+  const sources = [
+    { rubricItemId: undefined as string | undefined, tokens: tokenize(transcript) },
+    ...others.map(source => ({ rubricItemId: source.rubricItemId, tokens: tokenize(source.transcript) }))
+  ];
+
+  STAR_FIELDS.forEach(field => {
+    const fieldQuotes = (quotes[field] || []).map(q => q.trim()).filter(Boolean);
+    if (!fieldQuotes.length) return;
+
+    citations[field] = fieldQuotes.map((quote): EvidenceCitation => {
+      const quoteTokens = tokenize(quote);
+      for (const source of sources) {
+        const match = matchTokens(source.tokens, quoteTokens);
+        if (match) {
+          return { quote, start: match.start, end: match.end, verified: true, similarity: match.similarity, rubricItemId: source.rubricItemId };
+        }
+      }
+      return { quote, start: -1, end: -1, verified: false, similarity: 0 };
+    });
+  });
+
+  return citations;
+};
+
+/**
+ * Combines citations from an incremental analysis with earlier ones. A field
+ * the model cited anew takes the new citations; otherwise earlier ones carry
+ * over, since the model only sees recent transcript context.
+ */
+export const mergeCitations = (previous: STARCitations | undefined, next: STARCitations): STARCitations => {
+  const merged: STARCitations = {};
+  STAR_FIELDS.forEach(field => {
+    const citations = next[field]?.length ? next[field] : previous?.[field];
+    if (citations?.length) merged[field] = citations;
+  });
+  return merged;
+};
+
+/**
+ * Finds verified citations again after the transcript they quote changed
+ * (e.g. a corrected speaker label shifted the text). Only citations pointing
+ * into rubricItemId's transcript move; ownerId is the result holding them.
+ */
+export const relocateCitations = (
+  citations: STARCitations | undefined,
+  ownerId: string,
+  rubricItemId: string,
+  transcript: string
+): STARCitations | undefined => {
+  if (!citations) return citations;
+  const tokens = tokenize(transcript);
+  const relocated: STARCitations = {};
+  STAR_FIELDS.forEach(field => {
+    const fieldCitations = citations[field];
+    if (!fieldCitations) return;
+    relocated[field] = fieldCitations.map(citation => {
+      if (!citation.verified || (citation.rubricItemId || ownerId) !== rubricItemId) return citation;
+      const match = matchTokens(tokens, tokenize(citation.quote));
+      return match
+        ? { ...citation, start: match.start, end: match.end, similarity: match.similarity }
+        : { ...citation, start: -1, end: -1, verified: false, similarity: 0 };
+    });
+  });
+  return relocated;
+};
+
+/**
+ * STAR fields that state something but have no verified quote behind them.
+ */
+export const findUnsupportedFields = (star: STARResult | undefined, citations: STARCitations | undefined): (keyof STARResult)[] => {
+  if (!star || !citations) return [];
+  return STAR_FIELDS.filter(field => star[field]?.trim() && !citations[field]?.some(c => c.verified));
+};
+
+export const citationKey = (rubricItemId: string, field: keyof STARResult, index: number) => `${rubricItemId}:${field}:${index}`;
+
+export interface CitationHighlight {
+  key: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Verified passages in one parameter's transcript: its own citations plus any
+ * from other parameters (holistic analysis) that quote this transcript.
+ */
+export const highlightsForTranscript = (results: Record<string, InterviewResult>, rubricItemId: string): CitationHighlight[] => {
+  const highlights: CitationHighlight[] = [];
+  Object.entries(results).forEach(([ownerId, result]) => {
+    STAR_FIELDS.forEach(field => {
+      result.citations?.[field]?.forEach((citation, index) => {
+        if (!citation.verified || (citation.rubricItemId || ownerId) !== rubricItemId) return;
+        highlights.push({ key: citationKey(ownerId, field, index), start: citation.start, end: citation.end });
+      });
+    });
+  });
+  return highlights;
+};
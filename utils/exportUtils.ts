@@ -1,11 +1,15 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { AppSettings, InterviewResult, RubricItem } from '../types';
+import { UsageSummary, formatCost, formatTokens } from '../services/usageLedger';
+import { languageLabel, needsTranslation } from './languages';
+import { spokenLanguage, turnLabel } from './transcriptTurns';
 
 export const generatePDF = (
   settings: AppSettings,
   rubric: RubricItem[],
-  results: Record<string, InterviewResult>
+  results: Record<string, InterviewResult>,
+  usage?: UsageSummary
 ) => {
   const doc = new jsPDF();
 
@@ -18,6 +22,14 @@ export const generatePDF = (
   doc.text(`Candidate: ${settings.candidateName}`, 14, 30);
   doc.text(`Date: ${new Date().toLocaleDateString()}`, 14, 36);
   doc.text(`Model: ${settings.modelName}`, 14, 42);
+  // Per parameter, since a recording can override the session's language
+  const spokenLanguages = [...new Set(rubric
+    .map(item => spokenLanguage(results[item.id]?.turns) || settings.transcriptionLanguage)
+    .filter(needsTranslation)
+    .map(languageLabel))];
+  if (spokenLanguages.length > 0) {
+    doc.text(`Spoken language: ${spokenLanguages.join(', ')} (analyzed in English translation)`, 14, 48);
+  }
 
   const ratedItems = rubric.filter(item => results[item.id]?.rating > 0);
   const totalScore = ratedItems.reduce((sum, item) => sum + (results[item.id]?.rating || 0), 0);
@@ -33,26 +45,38 @@ export const generatePDF = (
     const starStr = star
       ? `S: ${star.situation}\nT: ${star.task}\nA: ${star.action}\nR: ${star.result}`
       : 'No evidence extracted.';
+    const rationale = result?.rationale;
+    const rationaleLines = [
+      result?.confidence !== undefined ? `Confidence: ${Math.round(result.confidence * 100)}%` : '',
+      result?.insufficientEvidence ? 'INSUFFICIENT EVIDENCE' : '',
+      rationale?.matchedAnchor ? `Matched: ${rationale.matchedAnchor}` : '',
+      rationale?.lowerRejected ? `Not lower: ${rationale.lowerRejected}` : '',
+      rationale?.higherRejected ? `Not higher: ${rationale.higherRejected}` : ''
+    ].filter(Boolean);
 
     return [
       item.competency,
       item.parameter,
       result?.rating || '-',
       starStr,
-      result?.notes || '-'
+      rationaleLines.join('\n') || '-',
+      result?.notes || '-',
+      result?.promptVersion?.replace('+', '\n') || '-'
     ];
   });
 
   autoTable(doc, {
     startY: 65,
-    head: [['Competency', 'Parameter', 'Score', 'STAR Evidence', 'Notes']],
+    head: [['Competency', 'Parameter', 'Score', 'STAR Evidence', 'Rationale', 'Notes', 'Prompt']],
     body: tableData,
     columnStyles: {
-      0: { cellWidth: 25 },
-      1: { cellWidth: 25 },
-      2: { cellWidth: 12, halign: 'center' },
-      3: { cellWidth: 50, fontSize: 8 },
-      4: { cellWidth: 30, fontSize: 8 }
+      0: { cellWidth: 20 },
+      1: { cellWidth: 22 },
+      2: { cellWidth: 10, halign: 'center' },
+      3: { cellWidth: 42, fontSize: 8 },
+      4: { cellWidth: 42, fontSize: 7 },
+      5: { cellWidth: 24, fontSize: 8 },
+      6: { cellWidth: 22, fontSize: 6 }
     },
     headStyles: {
       fillColor: [30, 64, 175]
@@ -62,5 +86,89 @@ export const generatePDF = (
     }
   });
 
+  // English text only: the built-in PDF fonts cannot render Indic scripts, so translated turns say what was left out
+  const transcriptRows = rubric.flatMap(item => (results[item.id]?.turns || []).map(turn => [
+    item.parameter,
+    turnLabel(turn) || '-',
+    [
+      turn.startedAt > 0 ? new Date(turn.startedAt).toLocaleTimeString() : '',
+      turn.duration ? `${Math.round(turn.duration)}s` : ''
+    ].filter(Boolean).join('\n') || '-',
+    turn.originalText !== undefined
+      ? `${turn.text}\n[English translation; ${languageLabel(turn.language || settings.transcriptionLanguage)} original omitted]`
+      : turn.text
+  ]));
+  const hasTranslatedTurns = rubric.some(item => (results[item.id]?.turns || []).some(turn => turn.originalText !== undefined));
+
+  if (transcriptRows.length > 0) {
+    doc.addPage();
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text('Transcript', 14, 20);
+    if (hasTranslatedTurns) {
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      doc.text('Turns spoken in another language are shown in English translation. The original-language text is kept in the app but omitted here, as this PDF cannot render its script.', 14, 26, { maxWidth: 182 });
+    }
+
+    autoTable(doc, {
+      startY: hasTranslatedTurns ? 34 : 28,
+      head: [['Parameter', 'Speaker', 'Time', 'Text']],
+      body: transcriptRows,
+      columnStyles: {
+        0: { cellWidth: 28 },
+        1: { cellWidth: 26, fontSize: 7 },
+        2: { cellWidth: 18, fontSize: 7 },
+        3: { fontSize: 8 }
+      },
+      headStyles: {
+        fillColor: [30, 64, 175]
+      },
+      styles: {
+        overflow: 'linebreak'
+      }
+    });
+  }
+
+  if (usage && usage.calls > 0) {
+    const usageRows = [
+      ...Object.entries(usage.byParameter).map(([id, totals]) => [
+        id ? (rubric.find(r => r.id === id)?.parameter || id) : 'Whole session',
+        totals,
+      ] as const),
+      ...Object.entries(usage.byModel).map(([model, totals]) => [`Model: ${model}`, totals] as const),
+    ].map(([label, totals]) => [
+      label,
+      totals.calls,
+      formatTokens(totals.inputTokens),
+      formatTokens(totals.outputTokens),
+      totals.audioSeconds > 0 ? `${Math.round(totals.audioSeconds)}s` : '-',
+      formatCost(totals.cost) + (totals.unpricedCalls > 0 ? '*' : '')
+    ]);
+
+    doc.addPage();
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text(`AI Usage & Cost (estimated): ${formatCost(usage.cost)}`, 14, 20);
+
+    autoTable(doc, {
+      startY: 28,
+      head: [['Item', 'Calls', 'Input Tokens', 'Output Tokens', 'Audio', 'Cost']],
+      body: usageRows,
+      headStyles: {
+        fillColor: [30, 64, 175]
+      },
+      styles: {
+        fontSize: 8
+      }
+    });
+
+    if (usage.unpricedCalls > 0) {
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      doc.text(`* ${usage.unpricedCalls} calls used models without a configured price.`, 14, (doc as any).lastAutoTable.finalY + 8);
+    }
+  }
+
   doc.save(`${settings.candidateName.replace(/\s+/g, '_')}_STAR_Report.pdf`);
 };
@@ -12,30 +12,61 @@ interface AudioBackupDB extends DBSchema {
         };
         indexes: { 'by-session': string };
     };
+    // Live chunks that could not be transcribed, kept until a retry succeeds
+    liveChunks: {
+        key: number;
+        value: ChunkBacklogEntry;
+        indexes: { 'by-session': string };
+    };
+}
+
+export interface ChunkBacklogEntry {
+    id?: number; // Assigned on save
+    sessionId: string;
+    parameterId: string;
+    audioKey: number; // Backup key of the recording the chunk belongs to
+    seq: number; // Position of the chunk within that recording
+    blob: Blob; // 16 kHz WAV, as sent for transcription
+    language: string; // Spoken language of the recording ("" = auto-detect)
+    createdAt: number;
+    attempts: number;
 }
 
 const DB_NAME = 'bars-audio-backup';
 const STORE_NAME = 'backups';
+const CHUNK_STORE_NAME = 'liveChunks';
 
 const initDB = async () => {
-    return openDB<AudioBackupDB>(DB_NAME, 1, {
-        upgrade(db) {
-            const store = db.createObjectStore(STORE_NAME, {
-                keyPath: 'timestamp',
-            });
-            store.createIndex('by-session', 'sessionId');
+    return openDB<AudioBackupDB>(DB_NAME, 2, {
+        upgrade(db, oldVersion) {
+            if (oldVersion < 1) {
+                const store = db.createObjectStore(STORE_NAME, {
+                    keyPath: 'timestamp',
+                });
+                store.createIndex('by-session', 'sessionId');
+            }
+            if (oldVersion < 2) {
+                const chunks = db.createObjectStore(CHUNK_STORE_NAME, {
+                    keyPath: 'id',
+                    autoIncrement: true,
+                });
+                chunks.createIndex('by-session', 'sessionId');
+            }
         },
     });
 };
 
+/**
+ * Saves a recording and returns its key, or undefined if the backup failed.
+ */
 export const saveAudioBackup = async (
     blob: Blob,
     sessionId: string,
     parameterId: string
-) => {
+): Promise<number | undefined> => {
     try {
         const db = await initDB();
-        await db.put(STORE_NAME, {
+        const key = await db.put(STORE_NAME, {
             timestamp: Date.now(),
             sessionId,
             parameterId,
@@ -43,8 +74,10 @@ export const saveAudioBackup = async (
             mimeType: blob.type,
         });
         console.log(`[Backup] Saved audio for session ${sessionId}, param ${parameterId}`);
+        return key;
     } catch (err) {
         console.error("Failed to save audio backup to IndexedDB:", err);
+        return undefined;
     }
 };
 
@@ -75,5 +108,27 @@ export const getQuestionAudio = async (sessionId: string, parameterId: string) =
 export const clearAllBackups = async () => {
     const db = await initDB();
     await db.clear(STORE_NAME);
+    await db.clear(CHUNK_STORE_NAME);
     console.log("[Backup] All audio backups cleared.");
 };
+
+export const saveBacklogChunk = async (entry: Omit<ChunkBacklogEntry, 'id'>): Promise<number> => {
+    const db = await initDB();
+    return db.add(CHUNK_STORE_NAME, entry as ChunkBacklogEntry);
+};
+
+export const getBacklogChunks = async (sessionId: string): Promise<ChunkBacklogEntry[]> => {
+    const db = await initDB();
+    const all = await db.getAllFromIndex(CHUNK_STORE_NAME, 'by-session', sessionId);
+    return all.sort((a, b) => a.createdAt - b.createdAt || a.seq - b.seq);
+};
+
+export const updateBacklogChunk = async (entry: ChunkBacklogEntry) => {
+    const db = await initDB();
+    await db.put(CHUNK_STORE_NAME, entry);
+};
+
+export const deleteBacklogChunk = async (id: number) => {
+    const db = await initDB();
+    await db.delete(CHUNK_STORE_NAME, id);
+};
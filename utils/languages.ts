@@ -0,0 +1,53 @@
+/**
+ * Languages candidates can answer in. Codes are ISO-639-1, as used by
+ * Whisper-style servers; providers with their own codes map from these.
+ */
+export interface SpokenLanguage {
+  code: string;
+  label: string;
+}
+
+export const SPOKEN_LANGUAGES: SpokenLanguage[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'bn', label: 'Bengali' },
+  { code: 'gu', label: 'Gujarati' },
+  { code: 'kn', label: 'Kannada' },
+  { code: 'ml', label: 'Malayalam' },
+  { code: 'mr', label: 'Marathi' },
+  { code: 'or', label: 'Odia' },
+  { code: 'pa', label: 'Punjabi' },
+  { code: 'ta', label: 'Tamil' },
+  { code: 'te', label: 'Telugu' },
+];
+
+/**
+ * The base language of a code, so provider-reported "hi-IN" matches "hi".
+ */
+export const baseLanguage = (code: string): string => code.trim().toLowerCase().split(/[-_]/)[0];
+
+export const languageLabel = (code?: string): string => {
+  if (!code) return 'Auto-detect';
+  return SPOKEN_LANGUAGES.find(l => l.code === baseLanguage(code))?.label || code;
+};
+
+/**
+ * Whether text in this language must be translated before analysis.
+ * An unknown language is treated as English.
+ */
+export const needsTranslation = (code?: string): boolean => {
+  if (!code) return false;
+  const base = baseLanguage(code);
+  return !!base && base !== 'en' && base !== 'unknown';
+};
+
+/**
+ * Transcription prompt line for LLM-based speech-to-text. Candidates often mix
+ * in English, and the transcript must stay in the spoken language so the
+ * original wording survives translation.
+ */
+export const transcriptionLanguageHint = (code?: string): string => {
+  if (!needsTranslation(code)) return '';
+  const label = languageLabel(code);
+  return `The speaker talks in ${label}, possibly mixed with English. Transcribe in the original language and script; do NOT translate.`;
+};
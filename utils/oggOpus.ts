@@ -0,0 +1,136 @@
+/**
+ * Opus encoding with WebCodecs, wrapped in an Ogg container (RFC 7845) so
+ * speech-to-text APIs accept it as an ordinary .ogg file. Browsers without
+ * an Opus AudioEncoder get null and callers fall back to WAV.
+ */
+
+const OPUS_RATE = 48000; // Ogg Opus granule positions always count 48 kHz samples
+const PRE_SKIP = 312; // Samples of encoder delay to drop on decode (libopus default)
+const MAX_PAGE_PACKETS = 50; // About a second of 20 ms packets per page
+const BLOCK_SECONDS = 1; // Audio handed to the encoder per call
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  // Each packet is laced as 255-byte segments plus a final shorter one
+  const lacing: number[] = [];
+  packets.forEach(packet => {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  });
+
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  view.setBigInt64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (sampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, 1); // Mono
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true); // Original rate, informational
+  return head; // Output gain and channel mapping family stay 0
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode('bars-interview');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return tags; // No user comments
+};
+
+/**
+ * Encodes mono samples as Ogg Opus, or returns null when the browser cannot.
+ */
+export const encodeOggOpus = async (samples: Float32Array, sampleRate: number, bitrate = 24000): Promise<Blob | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate };
+  try {
+    if (!(await AudioEncoder.isConfigSupported(config)).supported) return null;
+  } catch {
+    return null;
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let failure = null as Error | null;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round((chunk.duration ?? 20000) * OPUS_RATE / 1e6) });
+    },
+    error: (err) => { failure = err; }
+  });
+  encoder.configure(config);
+
+  const block = Math.round(sampleRate * BLOCK_SECONDS);
+  for (let start = 0; start < samples.length; start += block) {
+    const data = samples.slice(start, start + block);
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: data.length,
+      timestamp: Math.round(start / sampleRate * 1e6),
+      data
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const pages: Uint8Array[] = [
+    oggPage([opusHead(sampleRate)], 0, serial, 0, 0x02),
+    oggPage([opusTags()], 0, serial, 1, 0)
+  ];
+  let granule = 0; // Decoded samples so far, pre-skip included
+  let next = 0;
+  while (next < packets.length) {
+    let group = packets.slice(next, next + MAX_PAGE_PACKETS);
+    // A page holds at most 255 lacing values
+    while (group.length > 1 && group.reduce((sum, p) => sum + Math.floor(p.data.length / 255) + 1, 0) > 255) group = group.slice(0, -1);
+    next += group.length;
+    granule += group.reduce((sum, p) => sum + p.samples, 0);
+    pages.push(oggPage(group.map(p => p.data), granule, serial, pages.length, next >= packets.length ? 0x04 : 0));
+  }
+  return new Blob(pages, { type: 'audio/ogg' });
+};
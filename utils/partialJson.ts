@@ -0,0 +1,81 @@
+/**
+ * Best-effort parser for a JSON object that is still being streamed.
+ * Open strings, arrays and objects are closed; a dangling key or half-written
+ * literal is cut back to the last complete member. Returns undefined until
+ * there is something parseable.
+ */
+export const parsePartialJson = (text: string): any | undefined => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  let candidate = text.slice(start);
+  while (candidate) {
+    try {
+      return JSON.parse(closeJson(candidate));
+    } catch {
+      const cut = lastCutPoint(candidate);
+      if (cut <= 0) return undefined;
+      candidate = candidate.slice(0, cut);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Appends whatever quotes and brackets are needed to balance the text.
+ * Anything after the outermost object closes (e.g. a code fence) is dropped.
+ */
+const closeJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return text.slice(0, i + 1);
+    }
+  }
+
+  let closed = text;
+  if (inString) {
+    // A lone trailing backslash would escape the closing quote
+    if (escaped) closed = closed.slice(0, -1);
+    closed += '"';
+  }
+  return closed + stack.reverse().join('');
+};
+
+/**
+ * Position to truncate to so the last (incomplete) member is dropped:
+ * just before the last comma, or just after the last open bracket.
+ */
+const lastCutPoint = (text: string): number => {
+  let cut = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === ',') cut = i;
+    else if ((char === '{' || char === '[') && i + 1 < text.length) cut = i + 1;
+  }
+  return cut;
+};
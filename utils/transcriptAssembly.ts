@@ -0,0 +1,57 @@
+/**
+ * Assembles live-mode chunk transcripts into one transcript. Chunks are
+ * numbered as they are cut and may finish in any order; text is released in
+ * sequence, and words repeated across a chunk boundary (from the audio
+ * overlap between chunks) are dropped.
+ */
+
+export type LiveChunkStatus = 'pending' | 'done' | 'failed';
+
+export interface AssemblyChunk {
+  status: LiveChunkStatus;
+  text: string;
+}
+
+const MAX_OVERLAP_WORDS = 8;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Removes the words at the start of next that repeat the end of previous.
+ * A single repeated word is only dropped if it is not a short function word,
+ * since "I I" or "a a" are as likely to be speech as overlap.
+ */
+export const dropRepeatedWords = (previous: string, next: string): string => {
+  const tail = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const words = next.split(/\s+/).filter(Boolean);
+  const head = words.map(normalizeWord);
+
+  for (let size = Math.min(MAX_OVERLAP_WORDS, tail.length, head.length); size >= 1; size--) {
+    const repeats = head.slice(0, size).every((word, i) => word && word === tail[tail.length - size + i]);
+    if (repeats && (size > 1 || head[0].length > 2)) return words.slice(size).join(' ');
+  }
+  return next.trim();
+};
+
+/**
+ * Joins the chunks that can be released: everything up to the first chunk
+ * still pending, so a slow early chunk holds back later ones. Failed chunks
+ * are skipped until a retry fills them in.
+ */
+export const assembleChunks = (chunks: AssemblyChunk[]): string => {
+  let transcript = '';
+  for (const chunk of chunks) {
+    if (chunk.status === 'pending') break;
+    if (chunk.status === 'failed') continue;
+    const text = dropRepeatedWords(transcript, chunk.text);
+    if (text) transcript += (transcript ? ' ' : '') + text;
+  }
+  return transcript;
+};
+
+/**
+ * Assembles the chunk texts kept on a live turn; null marks a chunk whose
+ * text has not arrived yet.
+ */
+export const assembleChunkTexts = (texts: (string | null)[]): string =>
+  assembleChunks(texts.map(text => (text === null ? { status: 'failed', text: '' } : { status: 'done', text })));
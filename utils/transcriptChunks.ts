@@ -0,0 +1,36 @@
+/**
+ * Splits a long transcript into overlapping chunks that each fit one model call.
+ * Cuts prefer paragraph breaks, then line breaks, then sentence ends, so an
+ * answer is rarely split mid-sentence; the overlap carries context across cuts.
+ */
+export const chunkTranscript = (transcript: string, maxChars = 12000, overlapChars = 600): string[] => {
+  const text = transcript.trim();
+  if (text.length <= maxChars) return text ? [text] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + maxChars);
+    if (end < text.length) end = findBreak(text, start + Math.floor(maxChars / 2), end);
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    // Step back for overlap, but always move forward
+    start = Math.max(start + 1, findBreak(text, end - overlapChars, end, true));
+  }
+  return chunks;
+};
+
+const BREAKS = ['\n\n', '\n', '. ', '? ', '! '];
+
+/**
+ * Last natural break in [min, max). With fromStart, the first break instead,
+ * so the overlap begins at a clean boundary. Falls back to the window edge.
+ */
+const findBreak = (text: string, min: number, max: number, fromStart = false): number => {
+  const window = text.slice(Math.max(0, min), max);
+  for (const separator of BREAKS) {
+    const index = fromStart ? window.indexOf(separator) : window.lastIndexOf(separator);
+    if (index !== -1) return Math.max(0, min) + index + separator.length;
+  }
+  return fromStart ? Math.max(0, min) : max;
+};
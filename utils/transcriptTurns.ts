@@ -0,0 +1,190 @@
+import { InterviewResult, SpeakerTurn, TranscriptSpeaker, TranscriptTurn, TurnSource } from '../types';
+
+/**
+ * Transcript turns and their plain-text rendering. The rendering is what
+ * prompts see and what citation offsets index into, so its format is fixed:
+ * "LABEL: text" per turn, separated by blank lines.
+ */
+
+const LABELS: { label: string; speaker: TranscriptSpeaker; source: TurnSource }[] = [
+  { label: 'CANDIDATE', speaker: 'candidate', source: 'legacy' },
+  { label: 'INTERVIEWER (PROBE)', speaker: 'interviewer', source: 'probe' },
+  { label: 'INTERVIEWER', speaker: 'interviewer', source: 'legacy' },
+];
+
+// A label at the start of the text or of a paragraph, as transcripts were built before turns
+const LEGACY_LABEL = /(?:^|\n\n)(CANDIDATE|INTERVIEWER \(PROBE\)|INTERVIEWER): /g;
+
+export const turnLabel = (turn: Pick<TranscriptTurn, 'speaker' | 'source'>): string | null => {
+  if (turn.speaker === 'candidate') return 'CANDIDATE';
+  if (turn.speaker === 'interviewer') return turn.source === 'probe' ? 'INTERVIEWER (PROBE)' : 'INTERVIEWER';
+  return null;
+};
+
+/**
+ * Renders turns as text. With original, translated turns show the words as spoken.
+ */
+export const formatTurns = (turns: TranscriptTurn[] = [], original = false): string => {
+  return turns.map(turn => {
+    const text = original ? turn.originalText ?? turn.text : turn.text;
+    const label = turnLabel(turn);
+    return label ? `${label}: ${text}` : text;
+  }).join('\n\n');
+};
+
+export const transcriptText = (result?: InterviewResult): string => formatTurns(result?.turns);
+
+export const hasTranscript = (result?: InterviewResult): boolean => !!result?.turns?.length;
+
+export const hasOriginalText = (turns: TranscriptTurn[] = []): boolean => turns.some(turn => turn.originalText !== undefined);
+
+/**
+ * Language of the newest turn that records one.
+ */
+export const spokenLanguage = (turns: TranscriptTurn[] = []): string | undefined => {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].language) return turns[i].language;
+  }
+  return undefined;
+};
+
+export const createTurn = (fields: Omit<TranscriptTurn, 'id' | 'startedAt'> & { startedAt?: number }): TranscriptTurn => ({
+  id: crypto.randomUUID(),
+  startedAt: Date.now(),
+  ...fields
+});
+
+/**
+ * The candidate's newest answer: everything said since the interviewer last
+ * spoke, or the last candidate turn when the interviewer spoke last.
+ */
+export const latestAnswer = (turns: TranscriptTurn[] = []): string => {
+  let lastInterviewer = -1;
+  turns.forEach((turn, i) => { if (turn.speaker === 'interviewer') lastInterviewer = i; });
+
+  let answer = turns.slice(lastInterviewer + 1);
+  if (!answer.length) {
+    const lastCandidate = [...turns].reverse().find(turn => turn.speaker === 'candidate');
+    answer = lastCandidate ? [lastCandidate] : [];
+  }
+  return answer.map(turn => turn.text).join('\n\n');
+};
+
+/**
+ * Where each turn of one recording starts and how long it lasts, in seconds.
+ * Engine timing is used when every turn has it; otherwise the recording is
+ * shared out in proportion to how much each speaker said.
+ */
+export const placeInRecording = (
+  turns: (SpeakerTurn & { originalText?: string })[],
+  duration?: number
+): { start?: number; duration?: number }[] => {
+  if (turns.every(turn => turn.start !== undefined && turn.end !== undefined)) {
+    return turns.map(turn => ({ start: turn.start, duration: turn.end! - turn.start! }));
+  }
+  if (!duration) return turns.map(() => ({}));
+
+  const lengths = turns.map(turn => (turn.originalText ?? turn.text).length);
+  const total = lengths.reduce((sum, length) => sum + length, 0) || 1;
+  let start = 0;
+  return lengths.map(length => {
+    const share = duration * length / total;
+    const placed = { start, duration: share };
+    start += share;
+    return placed;
+  });
+};
+
+/**
+ * Seconds into the turn's recording at a fraction (0-1) of its text. Timed
+ * segments are followed where the engine reported them; translated text maps
+ * proportionally onto the spoken segments.
+ */
+export const turnTimeAt = (turn: TranscriptTurn, fraction: number): number => {
+  const start = turn.audioOffset ?? 0;
+  const segments = turn.segments?.filter(segment => segment.end > segment.start);
+  if (segments?.length) {
+    const total = segments.reduce((sum, segment) => sum + segment.text.length, 0) || 1;
+    let target = fraction * total;
+    for (const segment of segments) {
+      if (target <= segment.text.length) {
+        return segment.start + (segment.end - segment.start) * (segment.text.length ? target / segment.text.length : 0);
+      }
+      target -= segment.text.length;
+    }
+    return segments[segments.length - 1].end;
+  }
+  return start + fraction * (turn.duration || 0);
+};
+
+/**
+ * The recording and time behind a character offset in formatTurns(turns), or
+ * null when the turn there has no recording (typed turns, probes, migrated text).
+ */
+export const audioPositionAt = (turns: TranscriptTurn[], offset: number): { audioKey: number; time: number } | null => {
+  let position = 0;
+  for (const turn of turns) {
+    const label = turnLabel(turn);
+    const textStart = position + (label ? label.length + 2 : 0);
+    const textEnd = textStart + turn.text.length;
+    if (offset < textEnd + 2) {
+      if (turn.audioKey === undefined) return null;
+      const fraction = turn.text.length ? Math.min(1, Math.max(0, (offset - textStart) / turn.text.length)) : 0;
+      return { audioKey: turn.audioKey, time: turnTimeAt(turn, fraction) };
+    }
+    position = textEnd + 2; // "\n\n" between turns
+  }
+  return null;
+};
+
+/**
+ * Splits a transcript saved as one labelled string back into turns.
+ * formatTurns reproduces the input exactly, so saved citation offsets stay valid.
+ */
+export const parseLegacyTranscript = (text: string, source?: TurnSource): TranscriptTurn[] => {
+  if (!text) return [];
+  const turns: TranscriptTurn[] = [];
+  const matches = [...text.matchAll(LEGACY_LABEL)];
+
+  // Unlabelled text before the first label, e.g. a regenerated transcript
+  const firstIndex = matches.length ? matches[0].index! : text.length;
+  if (firstIndex > 0) {
+    turns.push(createTurn({ speaker: 'unknown', text: text.slice(0, firstIndex), source: source || 'legacy', startedAt: 0 }));
+  }
+
+  matches.forEach((match, i) => {
+    const { speaker, source: labelSource } = LABELS.find(l => l.label === match[1])!;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    turns.push(createTurn({
+      speaker,
+      text: text.slice(match.index! + match[0].length, end),
+      source: labelSource === 'probe' ? 'probe' : source || labelSource,
+      startedAt: 0
+    }));
+  });
+  return turns;
+};
+
+/**
+ * Upgrades a result saved before transcripts were stored as turns
+ * (localStorage "bars_results"). Current results are returned unchanged.
+ */
+export const migrateResult = (saved: any): InterviewResult => {
+  if (Array.isArray(saved?.turns)) return saved;
+
+  const { transcript, originalTranscript, language, ...rest } = saved || {};
+  const turns = parseLegacyTranscript(typeof transcript === 'string' ? transcript : '');
+
+  // Translated transcripts were kept as a parallel string with the same turns
+  const originals = typeof originalTranscript === 'string' ? parseLegacyTranscript(originalTranscript) : [];
+  if (originals.length === turns.length) {
+    turns.forEach((turn, i) => {
+      if (originals[i].text !== turn.text) {
+        turn.originalText = originals[i].text;
+        turn.language = language;
+      }
+    });
+  }
+
+  return { rating: 0, isEdited: false, ...rest, turns };
+};
@@ -0,0 +1,143 @@
+import { LiveSegmentation } from '../types';
+
+/**
+ * Energy-based voice activity detection for live mode. Audio arrives in short
+ * frames and leaves as utterances cut at pauses, so chunks sent for
+ * transcription start and end between words and silence is never sent.
+ */
+
+export const DEFAULT_LIVE_SEGMENTATION: LiveSegmentation = {
+  thresholdDb: -45,
+  hangoverMs: 700,
+  minChunkMs: 1500,
+  maxChunkMs: 15000,
+};
+
+const PREROLL_MS = 200; // Audio kept from before speech starts, so first syllables are not clipped
+const MIN_SPEECH_MS = 150; // Less speech than this is a click or cough, not an utterance
+const HELD_FLUSH_MS = 2500; // A held short utterance is sent on its own after this much silence
+
+export const resolveLiveSegmentation = (overrides?: Partial<LiveSegmentation>): LiveSegmentation => ({
+  ...DEFAULT_LIVE_SEGMENTATION,
+  ...Object.fromEntries(Object.entries(overrides || {}).filter(([, value]) => typeof value === 'number' && isFinite(value)))
+});
+
+/**
+ * Root-mean-square level of a frame in dBFS (0 = full scale, silence ≈ -100).
+ */
+export const frameLevelDb = (frame: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  const rms = Math.sqrt(sum / (frame.length || 1));
+  return rms > 0 ? 20 * Math.log10(rms) : -100;
+};
+
+const concat = (frames: Float32Array[]): Float32Array => {
+  const result = new Float32Array(frames.reduce((sum, frame) => sum + frame.length, 0));
+  let offset = 0;
+  frames.forEach(frame => {
+    result.set(frame, offset);
+    offset += frame.length;
+  });
+  return result;
+};
+
+export interface Utterance {
+  samples: Float32Array;
+  cutMidSpeech: boolean; // Cut at maxChunkMs rather than at a pause, so a word may be split at the end
+}
+
+export interface VoiceSegmenter {
+  push: (frame: Float32Array) => Utterance[]; // Utterances completed by this frame
+  flush: () => Utterance | null; // Whatever speech is still buffered, at the end of a session
+}
+
+export const createVoiceSegmenter = (options: LiveSegmentation, sampleRate: number): VoiceSegmenter => {
+  const msOf = (samples: number) => samples / sampleRate * 1000;
+
+  let preroll: Float32Array[] = [];
+  let prerollMs = 0;
+  let chunk: Float32Array[] = []; // Current utterance, including a held short one before it
+  let chunkMs = 0;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let inUtterance = false;
+
+  const reset = () => {
+    chunk = [];
+    chunkMs = 0;
+    speechMs = 0;
+    silenceMs = 0;
+    inUtterance = false;
+  };
+
+  const take = (cutMidSpeech = false): Utterance | null => {
+    const utterance = speechMs >= MIN_SPEECH_MS ? { samples: concat(chunk), cutMidSpeech } : null;
+    reset();
+    return utterance;
+  };
+
+  const push = (frame: Float32Array): Utterance[] => {
+    const frameMs = msOf(frame.length);
+    const isSpeech = frameLevelDb(frame) >= options.thresholdDb;
+    const done: Utterance[] = [];
+
+    if (!inUtterance) {
+      if (isSpeech) {
+        // Speech resumes: start an utterance, or continue a held short one
+        chunk.push(...preroll, frame);
+        chunkMs += prerollMs + frameMs;
+        speechMs += frameMs;
+        silenceMs = 0;
+        inUtterance = true;
+        preroll = [];
+        prerollMs = 0;
+      } else {
+        preroll.push(frame);
+        prerollMs += frameMs;
+        while (preroll.length > 1 && prerollMs - msOf(preroll[0].length) >= PREROLL_MS) {
+          prerollMs -= msOf(preroll.shift()!.length);
+        }
+        if (chunk.length) {
+          silenceMs += frameMs;
+          if (silenceMs >= HELD_FLUSH_MS) {
+            const held = take();
+            if (held) done.push(held);
+          }
+        }
+      }
+      return done;
+    }
+
+    chunk.push(frame);
+    chunkMs += frameMs;
+    if (isSpeech) {
+      speechMs += frameMs;
+      silenceMs = 0;
+    } else {
+      silenceMs += frameMs;
+    }
+
+    if (chunkMs >= options.maxChunkMs) {
+      // Long speech without a pause: cut and carry on in the same utterance
+      const utterance = take(true);
+      if (utterance) done.push(utterance);
+      inUtterance = isSpeech;
+    } else if (silenceMs >= options.hangoverMs) {
+      if (speechMs < MIN_SPEECH_MS) {
+        reset(); // A click or cough
+      } else if (chunkMs >= options.minChunkMs) {
+        const utterance = take();
+        if (utterance) done.push(utterance);
+      } else {
+        // Too short to send alone: hold it for the next utterance
+        inUtterance = false;
+      }
+    }
+    return done;
+  };
+
+  const flush = (): Utterance | null => (chunk.length ? take() : null);
+
+  return { push, flush };
+};